@@ -1,4 +1,6 @@
 import { config } from 'dotenv';
 config();
 
-import '@/ai/flows/suggest-tasks.ts';
\ No newline at end of file
+import '@/ai/flows/suggest-tasks.ts';
+import '@/ai/flows/break-down-task.ts';
+import '@/ai/flows/phase-tasks-flow.ts';
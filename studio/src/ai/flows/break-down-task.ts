@@ -0,0 +1,101 @@
+// src/ai/flows/break-down-task.ts
+'use server';
+
+/**
+ * @fileOverview AI flow that decomposes a single microtask into concrete subtasks.
+ *
+ * @function breakDownTask - Proposes 3-8 subtasks with hour estimates for one microtask.
+ * @interface BreakDownTaskInput - The task plus project context: description, tech stack and neighbouring tasks.
+ * @interface BreakDownTaskOutput - The proposed subtasks.
+ */
+
+import { ai } from '@/ai/genkit';
+import { flowModel } from '@/ai/providers';
+import { runValidatedPrompt, checkNames, checkHours, checkCount } from '@/ai/validation';
+import { aiFailure, type AIFlowResult } from '@/ai/results';
+import { z } from 'genkit';
+
+const BreakDownTaskInputSchema = z.object({
+  projectName: z.string().describe('The name of the project'),
+  projectDescription: z.string().describe('Detailed description of the project'),
+  techStack: z.string().describe('Comma-separated technologies the project uses'),
+  phaseName: z.string().describe('The phase the task belongs to'),
+  taskName: z.string(),
+  taskDescription: z.string(),
+  estimatedTime: z.number().describe('Current estimate for the whole task in hours'),
+  neighbouringTasks: z.array(z.string()).describe('Other tasks in the same phase, so subtasks do not duplicate them'),
+});
+
+export type BreakDownTaskInput = z.infer<typeof BreakDownTaskInputSchema>;
+
+const ProposedSubtaskSchema = z.object({
+  name: z.string().describe('A concrete step, starting with a verb'),
+  estimatedTime: z.number().describe('Hours for this step'),
+});
+
+const BreakDownTaskOutputSchema = z.object({
+  subtasks: z.array(ProposedSubtaskSchema).describe('Between 3 and 8 subtasks in the order they should be done'),
+});
+
+export type BreakDownTaskOutput = z.infer<typeof BreakDownTaskOutputSchema>;
+
+export async function breakDownTask(input: BreakDownTaskInput): Promise<AIFlowResult<BreakDownTaskOutput>> {
+  try {
+    console.log('🚀 Starting task breakdown for:', input.taskName);
+    const result: AIFlowResult<BreakDownTaskOutput> = await breakDownTaskFlow(input);
+    console.log(result.ok ? '✅ Task breakdown completed successfully' : '⚠️ Task breakdown returned no valid subtasks');
+    return result;
+  } catch (error) {
+    console.error('❌ Task breakdown failed:', error);
+    return aiFailure('Task breakdown failed', error);
+  }
+}
+
+// The prompt asks for 3-8 subtasks of 0.5-8 hours each, and answers outside that go back for repair
+const SUBTASK_COUNT = { min: 3, max: 8 };
+const SUBTASK_HOURS = { min: 0.5, max: 8 };
+
+const breakDownTaskPrompt = ai.definePrompt({
+  name: 'breakDownTaskPrompt',
+  ...flowModel('breakDownTask'),
+  input: { schema: BreakDownTaskInputSchema },
+  output: { schema: BreakDownTaskOutputSchema },
+  prompt: `You are an experienced technical lead. Break one task of the project "{{{projectName}}}" down into subtasks a developer can pick up one at a time.
+
+Project Description: {{{projectDescription}}}
+Tech Stack: {{{techStack}}}
+Phase: {{{phaseName}}}
+
+Task: {{{taskName}}}
+Details: {{{taskDescription}}}
+Current estimate: {{{estimatedTime}}} hours
+
+Other tasks in this phase (do not repeat their work):
+{{#each neighbouringTasks}}
+- {{{this}}}
+{{/each}}
+
+Requirements:
+- Return between 3 and 8 subtasks, in the order they should be done.
+- Each subtask is a concrete, verifiable step that names the technology or component involved, not a vague activity like "research" or "setup".
+- Give each subtask an estimate in hours (0.5 to 8). The estimates should add up to roughly the current estimate unless the task is clearly mis-sized.
+- Stay within the scope of this task; leave work that belongs to the other tasks listed above out.`,
+});
+
+const breakDownTaskFlow = ai.defineFlow(
+  {
+    name: 'breakDownTaskFlow',
+    inputSchema: BreakDownTaskInputSchema,
+  },
+  async (input) => {
+    console.log('🔄 Processing task breakdown prompt...');
+    return runValidatedPrompt(breakDownTaskPrompt, input, {
+      label: 'Task breakdown',
+      check: ({ subtasks }) => [
+        ...checkCount(subtasks.length, 'subtasks', SUBTASK_COUNT),
+        ...checkNames(subtasks.map(subtask => subtask.name), 'Subtask'),
+        ...subtasks.flatMap(subtask => checkHours(subtask.estimatedTime, `Subtask "${subtask.name}"`, SUBTASK_HOURS)),
+      ],
+    });
+  }
+);
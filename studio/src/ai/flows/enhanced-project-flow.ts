@@ -2,6 +2,10 @@
 'use server';
 
 import { ai } from '@/ai/genkit';
+import { flowModel } from '@/ai/providers';
+import { PlanPhaseSchema } from '@/ai/schemas';
+import { runValidatedPrompt, checkPlanPhases, checkCount } from '@/ai/validation';
+import { aiFailure, type AIFlowResult } from '@/ai/results';
 import { z } from 'genkit';
 
 // Final balanced input schema
@@ -12,24 +16,12 @@ const EnhancedProjectInputSchema = z.object({
   teamSize: z.number().min(1).max(20).optional(),
   timeline: z.number().min(1).max(52).optional(),
   experience: z.enum(['simple', 'moderate', 'complex', 'expert']).optional(),
+  budget: z.number().min(0).optional().describe('Budget in USD'),
 });
 
 export type EnhancedProjectInput = z.infer<typeof EnhancedProjectInputSchema>;
 
 // Final balanced output schema
-const MicrotaskSchema = z.object({
-  name: z.string(),
-  description: z.string(),
-  estimatedTime: z.number().describe('Estimated time in hours'),
-  priority: z.enum(['low', 'medium', 'high']),
-});
-
-const PhaseSchema = z.object({
-  name: z.string(),
-  description: z.string(),
-  microtasks: z.array(MicrotaskSchema),
-});
-
 const TechStackSchema = z.object({
   frontend: z.array(z.string()),
   backend: z.array(z.string()),
@@ -46,7 +38,7 @@ const EnhancedProjectOutputSchema = z.object({
   project: z.object({
     title: z.string(),
     description: z.string(),
-    phases: z.array(PhaseSchema),
+    phases: z.array(PlanPhaseSchema),
     metadata: z.object({
       techStack: TechStackSchema,
     }),
@@ -57,21 +49,25 @@ const EnhancedProjectOutputSchema = z.object({
 export type EnhancedProjectOutput = z.infer<typeof EnhancedProjectOutputSchema>;
 
 // Main flow function
-export async function generateEnhancedProject(input: EnhancedProjectInput): Promise<EnhancedProjectOutput> {
+export async function generateEnhancedProject(input: EnhancedProjectInput): Promise<AIFlowResult<EnhancedProjectOutput>> {
   try {
     console.log('🚀 Starting enhanced project generation with input:', input);
-    const result = await enhancedProjectFlow(input);
-    console.log('✅ Enhanced project generation completed successfully');
+    const result: AIFlowResult<EnhancedProjectOutput> = await enhancedProjectFlow(input);
+    console.log(result.ok ? '✅ Enhanced project generation completed successfully' : '⚠️ Enhanced project generation returned no valid plan');
     return result;
   } catch (error) {
     console.error('❌ Enhanced project generation failed:', error);
-    throw new Error(`AI Enhancement failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return aiFailure('AI Enhancement failed', error);
   }
 }
 
+// The prompt asks for 4-6 phases; a little slack avoids repairs over one phase more or less
+const ENHANCED_PHASES = { min: 3, max: 8 };
+
 // Define the enhanced prompt
 const enhancedProjectPrompt = ai.definePrompt({
   name: 'enhancedProjectPrompt',
+  ...flowModel('generateEnhancedProject'),
   input: { schema: EnhancedProjectInputSchema },
   output: { schema: EnhancedProjectOutputSchema },
   prompt: `You are an expert software architect. Create a detailed and actionable project plan for "{{{projectName}}}".
@@ -79,7 +75,10 @@ Description: {{{projectDescription}}}
 
 Generate a project plan with the following structure:
 - **Phases**: Create 4-6 distinct phases (e.g., "Project Setup," "Backend Development," "Frontend Development," "Testing & Deployment").
+- **Phase Schedule**: Give each phase its length in working days (estimatedDuration) and mark the phases whose completion is a key delivery point as milestones (milestone).
 - **Microtasks**: For each phase, generate 5-10 specific and actionable microtasks. Each microtask should be a concrete step a developer can take.
+- **Estimates**: Give each microtask a three-point estimate in hours: the most likely time (estimatedTime), an optimistic time (optimisticTime) and a pessimistic time (pessimisticTime), with optimistic ≤ most likely ≤ pessimistic. Widen the range for uncertain or unfamiliar work.
+- **Classification**: Give each microtask a priority, a complexity (simple, moderate, complex or expert) and a few short tags.
 - **Tech Stack**: Suggest a suitable tech stack (frontend, backend, database) and provide a brief, clear reasoning for your choices.
 - **Risks and Mitigations**: Identify 3-4 potential risk factors for this project and suggest a corresponding mitigation strategy for each.
 
@@ -92,21 +91,16 @@ const enhancedProjectFlow = ai.defineFlow(
   {
     name: 'enhancedProjectFlow',
     inputSchema: EnhancedProjectInputSchema,
-    outputSchema: EnhancedProjectOutputSchema,
   },
   async (input) => {
-    try {
-      console.log('🔄 Processing enhanced project prompt...');
-      const { output } = await enhancedProjectPrompt(input);
-      if (!output) {
-        throw new Error('No output received from AI model');
-      }
-      console.log('✅ Enhanced project prompt completed');
-      return output;
-    } catch (error) {
-      console.error('❌ Enhanced project prompt failed:', error);
-      throw error;
-    }
+    console.log('🔄 Processing enhanced project prompt...');
+    return runValidatedPrompt(enhancedProjectPrompt, input, {
+      label: 'Project generation',
+      check: ({ project }) => [
+        ...(project.title.trim() ? [] : ['The project has an empty title']),
+        ...checkPlanPhases(project.phases, ENHANCED_PHASES),
+      ],
+    });
   }
 );
 
@@ -130,9 +124,10 @@ const ProjectOptimizationOutputSchema = z.object({
   nextActions: z.array(z.string()).describe('Immediate next steps')
 });
 
-export async function optimizeProject(input: z.infer<typeof ProjectOptimizationInputSchema>): Promise<z.infer<typeof ProjectOptimizationOutputSchema>> {
+export async function optimizeProject(input: z.infer<typeof ProjectOptimizationInputSchema>): Promise<AIFlowResult<z.infer<typeof ProjectOptimizationOutputSchema>>> {
   const optimizationPrompt = ai.definePrompt({
     name: 'projectOptimization',
+    ...flowModel('optimizeProject'),
     input: { schema: ProjectOptimizationInputSchema },
     output: { schema: ProjectOptimizationOutputSchema },
     prompt: `As a senior project consultant, analyze this project's current state and suggest optimizations:
@@ -161,13 +156,22 @@ Focus on practical, implementable solutions that will improve project outcomes.`
     {
       name: 'projectOptimizationFlow',
       inputSchema: ProjectOptimizationInputSchema,
-      outputSchema: ProjectOptimizationOutputSchema,
     },
-    async (input) => {
-      const { output } = await optimizationPrompt(input);
-      return output!;
-    }
+    async (input) => runValidatedPrompt(optimizationPrompt, input, {
+      label: 'Project optimization',
+      check: output => [
+        ...checkCount(output.optimizations.length, 'optimizations', { min: 1, max: 15 }),
+        ...output.optimizations.flatMap((optimization, index) =>
+          optimization.description.trim() ? [] : [`Optimization ${index + 1} has no description`]),
+        ...(output.updatedTimeline.trim() ? [] : ['updatedTimeline is empty']),
+      ],
+    })
   );
 
-  return optimizationFlow(input);
+  try {
+    return await optimizationFlow(input);
+  } catch (error) {
+    console.error('❌ Project optimization failed:', error);
+    return aiFailure('Project optimization failed', error);
+  }
 }
@@ -0,0 +1,105 @@
+// src/ai/flows/phase-tasks-flow.ts
+'use server';
+
+/**
+ * @fileOverview AI flow that regenerates or extends the microtasks of a single phase.
+ *
+ * @function generatePhaseTasks - Proposes microtasks for one phase without touching the rest of the plan.
+ * @interface GeneratePhaseTasksInput - The phase, its current tasks split into kept and replaceable ones, and project context.
+ * @interface GeneratePhaseTasksOutput - The proposed microtasks.
+ */
+
+import { ai } from '@/ai/genkit';
+import { flowModel } from '@/ai/providers';
+import { PlanMicrotaskSchema } from '@/ai/schemas';
+import { runValidatedPrompt, checkPlanMicrotasks } from '@/ai/validation';
+import { aiFailure, type AIFlowResult } from '@/ai/results';
+import { z } from 'genkit';
+
+const GeneratePhaseTasksInputSchema = z.object({
+  mode: z.enum(['regenerate', 'extend']).describe('regenerate rewrites the replaceable tasks; extend only adds missing ones'),
+  projectName: z.string().describe('The name of the project'),
+  projectDescription: z.string().describe('Detailed description of the project'),
+  techStack: z.string().describe('Comma-separated technologies the project uses'),
+  phaseName: z.string(),
+  phaseDescription: z.string(),
+  otherPhases: z.array(z.string()).describe('Names of the other phases, whose work must not be duplicated'),
+  keptTasks: z.array(z.string()).describe('Tasks that stay as they are: completed, started or edited by the team'),
+  replaceableTasks: z.array(z.string()).describe('Untouched AI-generated tasks that may be revised or dropped'),
+});
+
+export type GeneratePhaseTasksInput = z.infer<typeof GeneratePhaseTasksInputSchema>;
+
+const GeneratePhaseTasksOutputSchema = z.object({
+  microtasks: z.array(PlanMicrotaskSchema),
+});
+
+export type GeneratePhaseTasksOutput = z.infer<typeof GeneratePhaseTasksOutputSchema>;
+
+export async function generatePhaseTasks(input: GeneratePhaseTasksInput): Promise<AIFlowResult<GeneratePhaseTasksOutput>> {
+  try {
+    console.log(`🚀 Starting phase task generation (${input.mode}) for:`, input.phaseName);
+    const result: AIFlowResult<GeneratePhaseTasksOutput> = await generatePhaseTasksFlow(input);
+    console.log(result.ok ? '✅ Phase task generation completed successfully' : '⚠️ Phase task generation returned no valid tasks');
+    return result;
+  } catch (error) {
+    console.error('❌ Phase task generation failed:', error);
+    return aiFailure('Phase task generation failed', error);
+  }
+}
+
+const generatePhaseTasksPrompt = ai.definePrompt({
+  name: 'generatePhaseTasksPrompt',
+  ...flowModel('generatePhaseTasks'),
+  input: { schema: GeneratePhaseTasksInputSchema },
+  output: { schema: GeneratePhaseTasksOutputSchema },
+  prompt: `You are an expert software architect. You are revising one phase of the project plan for "{{{projectName}}}".
+Description: {{{projectDescription}}}
+Tech Stack: {{{techStack}}}
+
+Phase: {{{phaseName}}}
+Phase Description: {{{phaseDescription}}}
+
+Other phases (their work is covered elsewhere):
+{{#each otherPhases}}
+- {{{this}}}
+{{/each}}
+
+Tasks the team is keeping (never return these):
+{{#each keptTasks}}
+- {{{this}}}
+{{/each}}
+
+Generated tasks nobody has touched yet:
+{{#each replaceableTasks}}
+- {{{this}}}
+{{/each}}
+
+{{#ifEquals mode "extend"}}
+Return ONLY the tasks this phase is still missing, next to both lists above. Return an empty list if nothing is missing.
+{{else}}
+Return the full set of tasks that should replace the untouched generated tasks, so that together with the kept tasks the phase is complete. To keep or revise an untouched task, reuse its exact name; leave out any that are no longer needed.
+{{/ifEquals}}
+
+Each microtask must be a concrete step a developer can take, with a three-point estimate in hours: the most likely time (estimatedTime), an optimistic time (optimisticTime) and a pessimistic time (pessimisticTime), with optimistic ≤ most likely ≤ pessimistic. Add a complexity and a few short tags.`,
+});
+
+const generatePhaseTasksFlow = ai.defineFlow(
+  {
+    name: 'generatePhaseTasksFlow',
+    inputSchema: GeneratePhaseTasksInputSchema,
+  },
+  async (input) => {
+    console.log('🔄 Processing phase task prompt...');
+    // Kept tasks are listed as "name: description"
+    const keptNames = input.keptTasks.map(task => task.toLowerCase());
+    const isKept = (name: string) => keptNames.some(kept => kept === name.trim().toLowerCase() || kept.startsWith(`${name.trim().toLowerCase()}:`));
+    return runValidatedPrompt(generatePhaseTasksPrompt, input, {
+      label: 'Phase task generation',
+      check: output => [
+        ...checkPlanMicrotasks(output.microtasks),
+        ...output.microtasks.filter(task => isKept(task.name)).map(task => `Microtask "${task.name}" repeats a task the team is keeping`),
+      ],
+    });
+  }
+);
@@ -4,14 +4,21 @@
 /**
  * @fileOverview AI-powered task suggestion flow for project planning.
  *
- * This file defines a Genkit flow that takes a project description as input and returns AI-generated suggestions for breaking down the project into phases and microtasks.
+ * This file defines a Genkit flow that takes a project description as input and returns AI-generated phases and microtasks
+ * with hours, priority, complexity and tags. Models that answer with a plain-text outline instead are still understood
+ * through parsePlan. Plans with too few phases, empty phases, duplicate names or missing hours are sent back for repair.
  *
- * @function suggestTasks - The main function to trigger the task suggestion flow.
+ * @function suggestTasks - The main function to trigger the task suggestion flow; returns a failure result instead of throwing.
  * @interface SuggestTasksInput - The input type for the suggestTasks function, containing the project description.
- * @interface SuggestTasksOutput - The output type for the suggestTasks function, providing an array of task suggestions.
+ * @interface SuggestTasksOutput - The output type for the suggestTasks function, providing the suggested phases.
  */
 
 import {ai} from '@/ai/genkit';
+import {flowModel} from '@/ai/providers';
+import {PlanPhaseSchema, type PlanPhase, type PlanMicrotask} from '@/ai/schemas';
+import {parsePlan} from '@/lib/ai-parser';
+import {runValidatedPrompt, checkPlanPhases} from '@/ai/validation';
+import {aiFailure, type AIFlowResult} from '@/ai/results';
 import {z} from 'genkit';
 
 // Define the input schema for the suggestTasks function
@@ -24,28 +31,29 @@ export type SuggestTasksInput = z.infer<typeof SuggestTasksInputSchema>;
 
 // Define the output schema for the suggestTasks function
 const SuggestTasksOutputSchema = z.object({
-  suggestions: z
-    .array(z.string())
-    .describe('An array of strings, where each string is a line in the suggested task breakdown. This includes phases and their corresponding microtasks formatted with appropriate indentation and numbering/bullets as per the prompt instructions.'),
+  phases: z
+    .array(PlanPhaseSchema)
+    .describe('The project phases in delivery order, each with its microtasks.'),
 });
 export type SuggestTasksOutput = z.infer<typeof SuggestTasksOutputSchema>;
 
 // Exported function to call the flow
-export async function suggestTasks(input: SuggestTasksInput): Promise<SuggestTasksOutput> {
+export async function suggestTasks(input: SuggestTasksInput): Promise<AIFlowResult<SuggestTasksOutput>> {
   try {
     console.log('🚀 Starting task suggestion generation...');
-    const result = await suggestTasksFlow(input);
-    console.log('✅ Task suggestion generation completed successfully');
+    const result: AIFlowResult<SuggestTasksOutput> = await suggestTasksFlow(input);
+    console.log(result.ok ? '✅ Task suggestion generation completed successfully' : '⚠️ Task suggestion generation returned no valid plan');
     return result;
   } catch (error) {
     console.error('❌ Task suggestion generation failed:', error);
-    throw new Error(`Task suggestion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return aiFailure('Task suggestion failed', error);
   }
 }
 
 // Define the prompt for task suggestion
 const suggestTasksPrompt = ai.definePrompt({
   name: 'suggestTasksPrompt',
+  ...flowModel('suggestTasks'),
   input: {schema: SuggestTasksInputSchema},
   output: {schema: SuggestTasksOutputSchema},
   prompt: `You are an experienced software project manager and technical lead. Generate a detailed breakdown of project phases and specific microtasks for the following project.
@@ -87,34 +95,60 @@ Use: "Build movie card component with poster, rating, genre tags, and add-to-wat
 Instead of: "Setup API"
 Use: "Create RESTful API endpoints for user preferences, movie recommendations, and watchlist management"
 
-Format your response as a clear, well-structured list:
-- Each phase should be a main numbered item (e.g., "1. Backend Development & APIs")
-- Under each phase, list specific microtasks with proper indentation (e.g., "  a. Design and implement user authentication system with JWT tokens")
-- Include enough technical detail for developers to understand the scope
-- Ensure tasks represent real software development milestones that deliver value
+For every microtask give:
+- A three-point estimate in hours: the most likely time (estimatedTime), an optimistic time (optimisticTime) and a pessimistic time (pessimisticTime), with optimistic ≤ most likely ≤ pessimistic
+- A priority (low, medium or high) and a complexity (simple, moderate, complex or expert)
+- A short description with enough technical detail for developers to understand the scope
+- A few short tags such as frontend, backend, auth or testing
+
+Give every phase a one-sentence description, its length in working days (estimatedDuration) and whether finishing it is a key delivery milestone (milestone), and ensure tasks represent real software development milestones that deliver value.
 
 Focus on actionable development tasks that move the project forward meaningfully, not just configuration or setup work.`,
 });
 
+// Suggestions are meant to cover a whole project, so a plan with only one or two phases is incomplete
+const SUGGESTED_PHASES = {min: 3, max: 12};
+
 // Define the Genkit flow for task suggestion
 const suggestTasksFlow = ai.defineFlow(
   {
     name: 'suggestTasksFlow',
     inputSchema: SuggestTasksInputSchema,
-    outputSchema: SuggestTasksOutputSchema,
   },
   async input => {
-    try {
-      console.log('🔄 Processing task suggestion prompt...');
-      const {output} = await suggestTasksPrompt(input);
-      if (!output) {
-        throw new Error('No output received from AI model');
-      }
-      console.log('✅ Task suggestion prompt completed');
-      return output;
-    } catch (error) {
-      console.error('❌ Task suggestion prompt failed:', error);
-      throw error;
-    }
+    console.log('🔄 Processing task suggestion prompt...');
+    return runValidatedPrompt(suggestTasksPrompt, input, {
+      label: 'Task suggestion',
+      check: output => checkPlanPhases(output.phases, SUGGESTED_PHASES),
+      // An answer that ignores the schema is still worth reading as a legacy text outline
+      fallback: answer => {
+        const phases = fromLegacyOutline(answer);
+        return phases.length > 0 ? {phases} : null;
+      },
+    });
   }
 );
+
+// Plain-text outlines keep whatever hours, priorities and tags they mention; the rest gets the neutral default.
+// A task that mentions no hours is dropped rather than saved with a made-up estimate.
+function fromLegacyOutline(text: string): PlanPhase[] {
+  return parsePlan(text).map(phase => ({
+    name: phase.name,
+    description: phase.description || '',
+    microtasks: phase.microtasks.flatMap(task => {
+      const estimatedTime = task.estimatedTime;
+      if (estimatedTime === undefined) return [];
+      const microtask: PlanMicrotask = {
+        name: task.name,
+        description: task.description || '',
+        estimatedTime,
+        priority: task.priority === 'critical' ? 'high' : task.priority || 'medium',
+        complexity: task.complexity || 'moderate',
+        tags: task.tags,
+      };
+      if (task.optimisticTime !== undefined) microtask.optimisticTime = task.optimisticTime;
+      if (task.pessimisticTime !== undefined) microtask.pessimisticTime = task.pessimisticTime;
+      return [microtask];
+    }),
+  }));
+}
@@ -1,14 +1,10 @@
 import {genkit} from 'genkit';
-import {googleAI} from '@genkit-ai/googleai';
+import {aiSettings, providerPlugins, defaultModelName} from '@/ai/providers';
 
-// Initialize Genkit with proper configuration
+// Initialize Genkit with the provider chosen by AI_PROVIDER (see providers.ts)
 export const ai = genkit({
-  plugins: [
-    googleAI({
-      apiKey: process.env.GOOGLE_GENAI_API_KEY || process.env.GEMINI_API_KEY,
-    })
-  ],
-  model: 'googleai/gemini-2.0-flash',
+  plugins: providerPlugins(aiSettings),
+  model: defaultModelName(aiSettings),
 });
 
-console.log('🤖 Genkit AI initialized with model: googleai/gemini-2.0-flash');
+console.log(`🤖 Genkit AI initialized with provider ${aiSettings.provider}, default model: ${defaultModelName(aiSettings)}`);
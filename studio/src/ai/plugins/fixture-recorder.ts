@@ -0,0 +1,36 @@
+// src/ai/plugins/fixture-recorder.ts
+/**
+ * Model middleware that saves every live response of a flow as a fixture the replay backend
+ * can serve later. Recording never fails a request: a fixture that cannot be written is logged.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { ModelMiddleware } from 'genkit/model';
+import { extractJson } from 'genkit/extract';
+import { fixturePath, inputHash, renderedPrompt, type AIFixture } from '@/ai/plugins/fixture-replay';
+
+export function recordFixtures(dir: string, flow: string): ModelMiddleware {
+  return async (request, next) => {
+    const response = await next(request);
+    const text = (response.message?.content || []).map(part => part.text || '').join('');
+    const file = fixturePath(dir, flow, inputHash(request));
+
+    // Structured answers are stored parsed so they stay readable and easy to edit by hand
+    const output = request.output?.schema ? extractJson(text, false) : null;
+    const fixture: AIFixture = {
+      ...(output !== null ? { output } : { text }),
+      prompt: renderedPrompt(request),
+      recordedAt: new Date().toISOString(),
+    };
+
+    try {
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+      console.log(`📼 Recorded AI fixture ${file}`);
+    } catch (error) {
+      console.error(`❌ Could not record AI fixture ${file}:`, error);
+    }
+    return response;
+  };
+}
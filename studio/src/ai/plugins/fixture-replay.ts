@@ -0,0 +1,89 @@
+// src/ai/plugins/fixture-replay.ts
+/**
+ * Genkit plugin that answers prompts from JSON files instead of a live model, so the app runs
+ * offline and deterministically. `fixtures/<flow>` looks in `<dir>/<flow>/` for the file named
+ * after the input hash, as written by the recorder, and falls back to the hand-authored `default.json`.
+ */
+
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import type { GenerateRequest, GenerateResponseData } from 'genkit';
+import { genkitPlugin, type GenkitPlugin } from 'genkit/plugin';
+
+export interface FixtureReplayOptions {
+  dir: string;
+}
+
+/** A recorded answer: structured output, or raw text for prompts without a schema */
+export interface AIFixture {
+  output?: unknown;
+  text?: string;
+  prompt?: string; // the rendered prompt, kept so recordings can be reviewed
+  recordedAt?: string;
+}
+
+/**
+ * The prompt as the flow rendered it from its input. Output instructions are left out because
+ * each backend adds its own, which would stop a recording from one provider replaying on another.
+ */
+export function renderedPrompt(request: GenerateRequest): string {
+  return request.messages
+    .map(message => `${message.role}: ${message.content
+      .filter(part => part.metadata?.purpose !== 'output')
+      .map(part => part.text || '')
+      .join('')}`)
+    .join('\n');
+}
+
+/**
+ * Stable key for a flow input: the rendered prompt, so editing a prompt stops old fixtures from
+ * matching. The output schema is left out since Genkit only passes it to models that enforce it.
+ */
+export function inputHash(request: GenerateRequest): string {
+  return createHash('sha256').update(renderedPrompt(request)).digest('hex').slice(0, 16);
+}
+
+/** Where the fixture for a flow input lives */
+export function fixturePath(dir: string, flow: string, hash: string): string {
+  return path.join(dir, flow, `${hash}.json`);
+}
+
+async function readFixture(file: string): Promise<AIFixture | null> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as AIFixture;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw new Error(`Unreadable AI fixture ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+async function replay(options: FixtureReplayOptions, flow: string, request: GenerateRequest): Promise<GenerateResponseData> {
+  const recorded = fixturePath(options.dir, flow, inputHash(request));
+  const fallback = fixturePath(options.dir, flow, 'default');
+  const fixture = await readFixture(recorded) || await readFixture(fallback);
+  if (!fixture) {
+    throw new Error(`No AI fixture for "${flow}": record ${recorded} or add ${fallback}`);
+  }
+
+  const text = fixture.text ?? JSON.stringify(fixture.output ?? null);
+  return { message: { role: 'model', content: [{ text }] }, finishReason: 'stop' };
+}
+
+export function fixtureReplay(options: FixtureReplayOptions): GenkitPlugin {
+  return genkitPlugin(
+    'fixtures',
+    async () => {},
+    async (ai, actionType, target) => {
+      if (actionType !== 'model') return;
+      ai.defineModel(
+        {
+          name: `fixtures/${target}`,
+          label: `Fixture replay - ${target}`,
+          supports: { multiturn: true, systemRole: true, media: false, tools: false, output: ['text', 'json'], constrained: 'none' },
+        },
+        request => replay(options, target, request)
+      );
+    }
+  );
+}
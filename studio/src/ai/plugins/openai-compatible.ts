@@ -0,0 +1,98 @@
+// src/ai/plugins/openai-compatible.ts
+/**
+ * Genkit plugin for any server speaking the OpenAI chat completions API, such as Ollama,
+ * LM Studio, vLLM or llama.cpp. Models are defined on first use, so `openai-compatible/<name>`
+ * works for whatever the server has loaded.
+ */
+
+import type { GenerateRequest, GenerateResponseData, MessageData } from 'genkit';
+import { genkitPlugin, type GenkitPlugin } from 'genkit/plugin';
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string; // without the trailing /chat/completions
+  apiKey?: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null }; finish_reason?: string | null }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+const ROLES: Record<MessageData['role'], string> = {
+  system: 'system',
+  user: 'user',
+  model: 'assistant',
+  tool: 'tool',
+};
+
+const toChatMessages = (messages: MessageData[]) => messages.map(message => ({
+  role: ROLES[message.role],
+  content: message.content.map(part => part.text || '').join(''),
+}));
+
+const toFinishReason = (reason?: string | null): GenerateResponseData['finishReason'] => {
+  if (reason === 'stop') return 'stop';
+  if (reason === 'length') return 'length';
+  if (reason === 'content_filter') return 'blocked';
+  return 'other';
+};
+
+/**
+ * Sends one Genkit request to the chat completions endpoint. JSON output relies on Genkit
+ * adding the schema to the prompt, with JSON mode switched on where the server supports it.
+ */
+async function generate(options: OpenAICompatibleOptions, model: string, request: GenerateRequest): Promise<GenerateResponseData> {
+  const config = request.config || {};
+  const response = await fetch(`${options.baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model,
+      messages: toChatMessages(request.messages),
+      temperature: config.temperature,
+      max_tokens: config.maxOutputTokens,
+      top_p: config.topP,
+      stop: config.stopSequences,
+      // Genkit clears the format once it has put the schema into the prompt, so the schema decides
+      ...(request.output?.schema || request.output?.format === 'json' ? { response_format: { type: 'json_object' } } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`${options.baseUrl} returned ${response.status} for model "${model}"${detail ? `: ${detail.slice(0, 300)}` : ''}`);
+  }
+
+  const data = await response.json() as ChatCompletionResponse;
+  const choice = data.choices?.[0];
+  return {
+    message: { role: 'model', content: [{ text: choice?.message?.content || '' }] },
+    finishReason: toFinishReason(choice?.finish_reason),
+    usage: {
+      inputTokens: data.usage?.prompt_tokens,
+      outputTokens: data.usage?.completion_tokens,
+      totalTokens: data.usage?.total_tokens,
+    },
+  };
+}
+
+export function openAICompatible(options: OpenAICompatibleOptions): GenkitPlugin {
+  return genkitPlugin(
+    'openai-compatible',
+    async () => {},
+    async (ai, actionType, target) => {
+      if (actionType !== 'model') return;
+      ai.defineModel(
+        {
+          name: `openai-compatible/${target}`,
+          label: `OpenAI-compatible - ${target}`,
+          supports: { multiturn: true, systemRole: true, media: false, tools: false, output: ['text', 'json'], constrained: 'none' },
+        },
+        request => generate(options, target, request)
+      );
+    }
+  );
+}
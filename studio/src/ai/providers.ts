@@ -0,0 +1,148 @@
+// src/ai/providers.ts
+/**
+ * Chooses the model backend for every AI flow from the environment.
+ *
+ *   AI_PROVIDER     googleai (default) | openai-compatible | fixtures
+ *   AI_MODEL        default model name for the provider, e.g. gemini-2.0-flash or llama3.1
+ *   AI_FLOW_MODELS  per-flow model names, e.g. "suggestTasks=llama3.1:8b,generateEnhancedProject=qwen2.5:14b"
+ *   AI_BASE_URL     OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama
+ *   AI_API_KEY      bearer token for the OpenAI-compatible server, if it needs one
+ *   AI_FIXTURES_DIR directory the fixture backend replays responses from (default src/ai/fixtures)
+ *   AI_RECORD_FIXTURES=true saves every live response there, keyed by flow name and input hash
+ */
+
+import type { GenkitPlugin } from 'genkit/plugin';
+import type { ModelMiddleware } from 'genkit/model';
+import { googleAI } from '@genkit-ai/googleai';
+import { openAICompatible } from '@/ai/plugins/openai-compatible';
+import { fixtureReplay } from '@/ai/plugins/fixture-replay';
+import { recordFixtures } from '@/ai/plugins/fixture-recorder';
+
+export type AIProvider = 'googleai' | 'openai-compatible' | 'fixtures';
+
+/** Every prompt the app sends, named after the function that runs it */
+export type AIFlowName =
+  | 'suggestTasks'
+  | 'generateEnhancedProject'
+  | 'optimizeProject'
+  | 'breakDownTask'
+  | 'generatePhaseTasks'
+  | 'analyzeTechStack'
+  | 'assessProjectRisks'
+  | 'enhanceTimeEstimation'
+  | 'analyzeDependencies'
+  | 'suggestOptimizations';
+
+export interface FlowModelConfig {
+  temperature: number;
+  maxOutputTokens?: number;
+}
+
+export interface AISettings {
+  provider: AIProvider;
+  defaultModel: string;
+  flowModels: Partial<Record<AIFlowName, string>>;
+  baseUrl: string;
+  apiKey?: string;
+  fixturesDir: string;
+  recordFixtures: boolean;
+}
+
+const DEFAULT_MODELS: Record<AIProvider, string> = {
+  googleai: 'gemini-2.0-flash',
+  'openai-compatible': 'llama3.1',
+  fixtures: 'replay',
+};
+
+// Planning prompts get room to be creative; estimation and analysis stay close to the input
+const FLOW_CONFIG: Record<AIFlowName, FlowModelConfig> = {
+  suggestTasks: { temperature: 0.7 },
+  generateEnhancedProject: { temperature: 0.7, maxOutputTokens: 8192 },
+  optimizeProject: { temperature: 0.4 },
+  breakDownTask: { temperature: 0.4 },
+  generatePhaseTasks: { temperature: 0.5 },
+  analyzeTechStack: { temperature: 0.3 },
+  assessProjectRisks: { temperature: 0.4 },
+  enhanceTimeEstimation: { temperature: 0.2 },
+  analyzeDependencies: { temperature: 0.2 },
+  suggestOptimizations: { temperature: 0.4 },
+};
+
+const isProvider = (value: string): value is AIProvider => Object.hasOwn(DEFAULT_MODELS, value);
+const isFlowName = (value: string): value is AIFlowName => Object.hasOwn(FLOW_CONFIG, value);
+
+/**
+ * Reads the AI settings from environment variables, falling back to Google AI
+ */
+export function readAISettings(env: Record<string, string | undefined>): AISettings {
+  const requested = (env.AI_PROVIDER || 'googleai').trim().toLowerCase();
+  if (!isProvider(requested)) {
+    throw new Error(`Unknown AI_PROVIDER "${requested}". Use googleai, openai-compatible or fixtures.`);
+  }
+
+  const flowModels: Partial<Record<AIFlowName, string>> = {};
+  (env.AI_FLOW_MODELS || '').split(',').forEach(entry => {
+    const separator = entry.indexOf('=');
+    if (separator < 0) return;
+    const flow = entry.slice(0, separator).trim();
+    const model = entry.slice(separator + 1).trim();
+    if (!isFlowName(flow)) {
+      console.warn(`⚠️ Ignoring AI_FLOW_MODELS entry for unknown flow "${flow}"`);
+      return;
+    }
+    if (model) flowModels[flow] = model;
+  });
+
+  return {
+    provider: requested,
+    defaultModel: env.AI_MODEL?.trim() || DEFAULT_MODELS[requested],
+    flowModels,
+    baseUrl: (env.AI_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, ''),
+    apiKey: env.AI_API_KEY || undefined,
+    fixturesDir: env.AI_FIXTURES_DIR || 'src/ai/fixtures',
+    // Replaying what was just replayed would only rewrite the same files
+    recordFixtures: env.AI_RECORD_FIXTURES === 'true' && requested !== 'fixtures',
+  };
+}
+
+export const aiSettings = readAISettings(process.env);
+
+/**
+ * The Genkit plugin serving the configured provider
+ */
+export function providerPlugins(settings: AISettings): GenkitPlugin[] {
+  switch (settings.provider) {
+    case 'openai-compatible':
+      return [openAICompatible({ baseUrl: settings.baseUrl, apiKey: settings.apiKey })];
+    case 'fixtures':
+      return [fixtureReplay({ dir: settings.fixturesDir })];
+    default:
+      return [googleAI({ apiKey: process.env.GOOGLE_GENAI_API_KEY || process.env.GEMINI_API_KEY })];
+  }
+}
+
+/**
+ * Fully qualified name of the model used when a prompt does not pick one
+ */
+export function defaultModelName(settings: AISettings = aiSettings): string {
+  return `${settings.provider}/${settings.defaultModel}`;
+}
+
+/**
+ * Model, generation parameters and recording middleware for one flow, to spread into `ai.definePrompt`.
+ * Fixture replay serves each flow from its own folder, so the flow name is the model name.
+ */
+export function flowModel(flow: AIFlowName, settings: AISettings = aiSettings): {
+  model: string;
+  config: FlowModelConfig;
+  use?: ModelMiddleware[];
+} {
+  const model = settings.provider === 'fixtures'
+    ? flow
+    : settings.flowModels[flow] || settings.defaultModel;
+  return {
+    model: `${settings.provider}/${model}`,
+    config: { ...FLOW_CONFIG[flow] },
+    ...(settings.recordFixtures ? { use: [recordFixtures(settings.fixturesDir, flow)] } : {}),
+  };
+}
@@ -0,0 +1,32 @@
+// src/ai/results.ts
+/**
+ * What every AI function hands back to the UI: validated output, or a failure saying why there is
+ * none. Free of Genkit imports so client components can use it.
+ */
+
+export type AIFlowFailure = {
+  ok: false;
+  error: string;
+  issues: string[]; // problems the model could not repair, empty when the request itself failed
+};
+
+export type AIFlowResult<T> =
+  | { ok: true; data: T; repairs: number } // repairs: how many correction rounds the answer needed
+  | AIFlowFailure;
+
+/**
+ * A failure for an error thrown while calling the model, e.g. a network or authentication problem
+ */
+export function aiFailure(context: string, error: unknown): AIFlowFailure {
+  return { ok: false, error: `${context}: ${error instanceof Error ? error.message : 'Unknown error'}`, issues: [] };
+}
+
+/**
+ * One line for a toast: the error followed by the first problems that were left
+ */
+export function describeAIFailure(failure: AIFlowFailure, maxIssues = 2): string {
+  if (failure.issues.length === 0) return failure.error;
+  const shown = failure.issues.slice(0, maxIssues).join('; ');
+  const more = failure.issues.length - maxIssues;
+  return `${failure.error} (${shown}${more > 0 ? `; ${more} more` : ''})`;
+}
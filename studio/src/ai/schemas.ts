@@ -0,0 +1,30 @@
+// src/ai/schemas.ts
+/**
+ * Output schemas shared by every flow that plans work, so suggested, generated and regenerated
+ * tasks all arrive with the same fields and convert to microtasks the same way.
+ */
+
+import { z } from 'genkit';
+
+export const PlanMicrotaskSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  estimatedTime: z.number().describe('Most likely time in hours'),
+  optimisticTime: z.number().optional().describe('Hours if everything goes well'),
+  pessimisticTime: z.number().optional().describe('Hours if things go badly'),
+  priority: z.enum(['low', 'medium', 'high']),
+  complexity: z.enum(['simple', 'moderate', 'complex', 'expert']),
+  tags: z.array(z.string()).describe('A few short lowercase tags, e.g. backend, auth, testing'),
+});
+
+export type PlanMicrotask = z.infer<typeof PlanMicrotaskSchema>;
+
+export const PlanPhaseSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  estimatedDuration: z.number().optional().describe('Working days the phase takes'),
+  milestone: z.boolean().optional().describe('True when finishing the phase is a key delivery point'),
+  microtasks: z.array(PlanMicrotaskSchema),
+});
+
+export type PlanPhase = z.infer<typeof PlanPhaseSchema>;
@@ -0,0 +1,166 @@
+// src/ai/validation.ts
+/**
+ * Runs a prompt until its answer passes the output schema and the flow's own checks. A failing
+ * answer goes back to the model with the problems listed, so partial plans, zero-hour tasks and
+ * empty phases are corrected before anything is saved.
+ */
+
+import { ai } from '@/ai/genkit';
+import type { GenerateOptions, MessageData, z } from 'genkit';
+import type { ModelMiddleware } from 'genkit/model';
+import { extractJson } from 'genkit/extract';
+import type { PlanMicrotask, PlanPhase } from '@/ai/schemas';
+import type { AIFlowResult } from '@/ai/results';
+
+export interface Bounds {
+  min: number;
+  max: number;
+}
+
+// A microtask is a quarter of an hour to a week of work; anything bigger should have been split
+export const TASK_HOURS: Bounds = { min: 0.25, max: 40 };
+
+const MAX_REPAIRS = 2;
+
+// What this module needs from a prompt made with `ai.definePrompt`
+interface RenderablePrompt<I, O extends z.ZodTypeAny> {
+  render(input?: I): Promise<GenerateOptions<O, z.ZodTypeAny>>;
+}
+
+export interface ValidatedPromptOptions<T> {
+  label: string; // what the prompt produces, for logs and the error shown to the user
+  check?: (output: T) => string[]; // problems beyond the schema, phrased so the model can fix them
+  fallback?: (answer: string) => T | null; // last resort for an answer that never matched the schema
+  maxRepairs?: number;
+}
+
+/**
+ * Empty and repeated names, compared case-insensitively
+ */
+export function checkNames(names: string[], what: string): string[] {
+  const seen = new Set<string>();
+  return names.flatMap((name, index) => {
+    const key = name.trim().toLowerCase();
+    if (!key) return [`${what} ${index + 1} has an empty name`];
+    if (seen.has(key)) return [`${what} "${name.trim()}" appears more than once; names must be unique`];
+    seen.add(key);
+    return [];
+  });
+}
+
+export function checkHours(hours: number, what: string, bounds: Bounds = TASK_HOURS): string[] {
+  return Number.isFinite(hours) && hours >= bounds.min && hours <= bounds.max
+    ? []
+    : [`${what} is estimated at ${hours} hours; estimates must be between ${bounds.min} and ${bounds.max} hours`];
+}
+
+export function checkCount(count: number, what: string, bounds: Bounds): string[] {
+  return count >= bounds.min && count <= bounds.max
+    ? []
+    : [`There are ${count} ${what}; return between ${bounds.min} and ${bounds.max}`];
+}
+
+/**
+ * Unique, named microtasks with estimates in the task range
+ */
+export function checkPlanMicrotasks(tasks: PlanMicrotask[]): string[] {
+  return [
+    ...checkNames(tasks.map(task => task.name), 'Microtask'),
+    ...tasks.flatMap(task => checkHours(task.estimatedTime, `Microtask "${task.name}"`)),
+  ];
+}
+
+/**
+ * A phase count in range, unique phase names, no empty phases and valid microtasks across the whole plan
+ */
+export function checkPlanPhases(phases: PlanPhase[], phaseCount: Bounds): string[] {
+  return [
+    ...checkCount(phases.length, 'phases', phaseCount),
+    ...checkNames(phases.map(phase => phase.name), 'Phase'),
+    ...phases.filter(phase => phase.microtasks.length === 0).map(phase => `Phase "${phase.name}" has no microtasks`),
+    ...checkPlanMicrotasks(phases.flatMap(phase => phase.microtasks)),
+  ];
+}
+
+function schemaIssues(schema: z.ZodTypeAny | undefined, answer: string): string[] {
+  const parsed = extractJson(answer, false);
+  if (parsed === null || parsed === undefined) return ['The answer did not contain a JSON object; reply with JSON only'];
+  const result = schema?.safeParse(parsed);
+  if (!result || result.success) return ['The answer did not match the requested JSON format'];
+  return result.error.issues.map(issue => `${issue.path.join('.') || 'answer'}: ${issue.message}`);
+}
+
+const repairPrompt = (issues: string[]) => `Your answer has these problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Return the complete corrected answer in the same JSON format. Fix these problems and keep everything else as it was.
+`;
+
+/**
+ * Sends a prompt and validates the answer, asking the model to repair it up to `maxRepairs`
+ * times. Errors reaching the model are thrown; answers that stay invalid come back as a failure.
+ */
+export async function runValidatedPrompt<I, O extends z.ZodTypeAny>(
+  prompt: RenderablePrompt<I, O>,
+  input: I,
+  options: ValidatedPromptOptions<z.infer<O>>
+): Promise<AIFlowResult<z.infer<O>>> {
+  const { label, check = () => [], fallback, maxRepairs = MAX_REPAIRS } = options;
+  const rendered = await prompt.render(input);
+
+  // Keep the raw answer so an invalid one can be quoted back to the model
+  let answer = '';
+  const keepAnswer: ModelMiddleware = async (request, next) => {
+    const response = await next(request);
+    answer = (response.message?.content || []).map(part => part.text || '').join('');
+    return response;
+  };
+
+  let messages: MessageData[] = rendered.messages || [];
+  let issues: string[] = [];
+  let matchedSchema = false;
+  for (let round = 0; round <= maxRepairs; round++) {
+    answer = '';
+    let output: z.infer<O> | null = null;
+    try {
+      const response = await ai.generate({ ...rendered, messages, use: [...(rendered.use || []), keepAnswer] });
+      output = response.output;
+    } catch (error) {
+      // Without an answer the request itself failed, which no repair prompt can fix
+      if (!answer) throw error;
+    }
+
+    matchedSchema = output !== null && output !== undefined;
+    issues = matchedSchema ? check(output) : schemaIssues(rendered.output?.schema, answer);
+    if (issues.length === 0) {
+      if (round > 0) console.log(`🔧 ${label} answer repaired after ${round} round(s)`);
+      return { ok: true, data: output, repairs: round };
+    }
+
+    console.warn(`⚠️ ${label} answer failed validation (round ${round + 1}):`, issues);
+    messages = [
+      ...messages,
+      { role: 'model', content: [{ text: answer }] },
+      { role: 'user', content: [{ text: repairPrompt(issues) }] },
+    ];
+  }
+
+  if (!matchedSchema && fallback) {
+    const recovered = fallback(answer);
+    if (recovered) {
+      // The fallback reading is held to the same checks as a schema answer
+      const recoveredIssues = check(recovered);
+      if (recoveredIssues.length === 0) {
+        console.log(`⚠️ ${label} answer never matched the schema; using the fallback reading`);
+        return { ok: true, data: recovered, repairs: maxRepairs };
+      }
+      console.warn(`⚠️ ${label} fallback reading failed validation:`, recoveredIssues);
+      issues = recoveredIssues;
+    }
+  }
+  return {
+    ok: false,
+    error: `${label} returned an invalid answer after ${maxRepairs} correction attempt(s)`,
+    issues,
+  };
+}
@@ -2,7 +2,7 @@
 "use client";
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import type { Project, Phase, Microtask, UserProject, OptimizationResults } from '@/lib/types';
+import type { Project, Phase, Microtask, UserProject, OptimizationResults, BoardColumn, WorkingCalendar, Sprint, Subtask } from '@/lib/types';
 import { AppHeader } from '@/components/mindscope/app-header';
 import { ProjectSetup } from '@/components/mindscope/project-setup';
 import { ProjectSetupEnhanced } from '@/components/mindscope/project-setup-enhanced';
@@ -11,12 +11,29 @@ import { ProjectIntelligenceDashboard } from '@/components/mindscope/project-int
 import { ProjectQuickStats } from '@/components/mindscope/project-quick-stats';
 import { TaskList } from '@/components/mindscope/task-list';
 import { OverallProgress } from '@/components/mindscope/overall-progress';
+import { BurnCharts } from '@/components/mindscope/burn-charts';
+import { WorkingCalendarSettings } from '@/components/mindscope/working-calendar-settings';
+import { TeamSettings } from '@/components/mindscope/team-settings';
+import { WorkloadView } from '@/components/mindscope/workload-view';
+import { SprintPlanning } from '@/components/mindscope/sprint-planning';
+import { SprintReview } from '@/components/mindscope/sprint-review';
 import { ProjectManager } from '@/components/mindscope/project-manager';
+import { DependencyIssuesDialog } from '@/components/mindscope/dependency-issues-dialog';
+import { GanttChart } from '@/components/mindscope/gantt-chart';
+import { KanbanBoard } from '@/components/mindscope/kanban-board';
+import {
+  calibratePhases,
+  describeCalibration,
+  learnCalibration,
+  type CalibrationProfile
+} from '@/lib/services/estimate-calibration';
 import { useToast } from "@/hooks/use-toast";
-import { suggestTasks as suggestTasksAction } from '@/ai/flows/suggest-tasks';
+import { suggestTasks as suggestTasksAction, type SuggestTasksOutput } from '@/ai/flows/suggest-tasks';
 import { generateEnhancedProject } from '@/ai/flows/enhanced-project-flow';
 import { optimizeProject } from '@/ai/flows/enhanced-project-flow';
-import { parseAISuggestions } from '@/lib/ai-parser';
+import { breakDownTask } from '@/ai/flows/break-down-task';
+import { generatePhaseTasks } from '@/ai/flows/phase-tasks-flow';
+import { describeAIFailure } from '@/ai/results';
 import { 
   shouldRunOptimization, 
   createOptimizationResults, 
@@ -27,11 +44,36 @@ import {
   getProjectStats, 
   calculateProjectProgress 
 } from '@/lib/services/progress-tracker';
+import type { CostSettings } from '@/lib/services/earned-value';
+import { removeStaleAssignees } from '@/lib/services/assignees';
+import { buildBreakdownInput, toProposedSubtasks } from '@/lib/services/task-breakdown';
+import { toImportedPhases, mergeImportedPhases } from '@/lib/services/plan-import';
+import { getWorkingCalendar } from '@/lib/services/working-calendar';
+import { getBoardColumns } from '@/lib/services/board';
+import type { ParsedPhase } from '@/lib/ai-parser';
+import {
+  buildPhaseGenerationInput,
+  toGeneratedMicrotasks,
+  toGeneratedPhases,
+  diffPhaseTasks,
+  hasPhaseChanges,
+  applyPhaseDiff,
+  type PhaseDiff,
+  type PhaseGenerationMode
+} from '@/lib/services/phase-regeneration';
 import { 
   analyzeTechStack, 
   assessProjectRisks, 
   enhanceTimeEstimation 
 } from '@/lib/services/project-intelligence';
+import { 
+  validateDependencies, 
+  getIssuesForTask, 
+  getIntroducedIssues,
+  repairDependencyIssue,
+  type DependencyIssue,
+  type DependencyRepairAction
+} from '@/lib/services/dependency-validator';
 import { database } from '@/lib/firebase/config';
 import { ref, onValue, set, push, remove, serverTimestamp, off, update, get } from 'firebase/database';
 import { useRouter } from 'next/navigation';
@@ -40,7 +82,7 @@ import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Loader2, Plus, Sparkles, Brain, BarChart3, Zap } from 'lucide-react';
+import { Loader2, Plus, Sparkles, Brain, BarChart3, Zap, ChartGantt, Kanban, IterationCw } from 'lucide-react';
 
 
 const MAX_PROJECTS = 10; // Increased from 5 to 10
@@ -94,12 +136,39 @@ const normalizeProjectData = (data: any): Project => {
         if (task.actualTime !== undefined && task.actualTime !== null) {
           cleanTask.actualTime = task.actualTime;
         }
+        if (task.rawEstimatedTime !== undefined && task.rawEstimatedTime !== null) {
+          cleanTask.rawEstimatedTime = task.rawEstimatedTime;
+        }
+        if (task.aiGenerated === true) {
+          cleanTask.aiGenerated = true;
+        }
+        if (task.threePointEstimate) {
+          cleanTask.threePointEstimate = task.threePointEstimate;
+        }
+        if (Array.isArray(task.assignees) && task.assignees.length > 0) {
+          cleanTask.assignees = task.assignees;
+        }
+        if (Array.isArray(task.subtasks) && task.subtasks.length > 0) {
+          cleanTask.subtasks = task.subtasks;
+        }
         if (task.notes !== undefined && task.notes !== null && task.notes !== '') {
           cleanTask.notes = task.notes;
         }
         if (task.completedAt !== undefined && task.completedAt !== null) {
           cleanTask.completedAt = task.completedAt;
         }
+        if (task.status !== undefined && task.status !== null && task.status !== '') {
+          cleanTask.status = task.status;
+        }
+        if (task.startDate !== undefined && task.startDate !== null) {
+          cleanTask.startDate = task.startDate;
+        }
+        if (task.endDate !== undefined && task.endDate !== null) {
+          cleanTask.endDate = task.endDate;
+        }
+        if (Array.isArray(task.timeLogs) && task.timeLogs.length > 0) {
+          cleanTask.timeLogs = task.timeLogs;
+        }
         
         return cleanTask;
       }) : []
@@ -113,6 +182,11 @@ const normalizeProjectData = (data: any): Project => {
     normalized.metadata = DEFAULT_PROJECT.metadata;
   }
   
+  // Firebase drops empty arrays, so sprints without committed tasks come back without taskIds
+  if (Array.isArray(data.sprints)) {
+    normalized.sprints = data.sprints.map((sprint: any) => ({ ...sprint, taskIds: sprint.taskIds || [] }));
+  }
+  
   // Preserve optimization results if they exist
   if (data.optimizationResults) {
     normalized.optimizationResults = data.optimizationResults;
@@ -136,9 +210,11 @@ export default function MindScopePage() {
   const [localCurrentUserIdentifier, setLocalCurrentUserIdentifier] = useState<string>('');
   const [isWritingToDb, setIsWritingToDb] = useState(false);
   const [showEnhancedSetup, setShowEnhancedSetup] = useState(false);
-  const [activeTab, setActiveTab] = useState<'overview' | 'tasks' | 'intelligence'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'tasks' | 'board' | 'sprints' | 'timeline' | 'intelligence'>('overview');
   const [isNewUser, setIsNewUser] = useState<boolean>(false); // Track if user is new
   const [userProjectLimit, setUserProjectLimit] = useState<number>(MAX_PROJECTS); // Dynamic project limit
+  const [dependencyIssues, setDependencyIssues] = useState<DependencyIssue[]>([]); // Invalid dependencies awaiting repair
+  const [calibrationProfile, setCalibrationProfile] = useState<CalibrationProfile>(() => learnCalibration([])); // Learned from all of the user's projects
   
   // Ref to track the most current project data for preventing stale closures
   const currentProjectDataRef = useRef<Project | null>(null);
@@ -166,7 +242,8 @@ export default function MindScopePage() {
         onValue(projectsRef, (snapshot) => {
           const projectsData = snapshot.val();
           if (projectsData) {
-            const loadedProjects: UserProject[] = Object.entries(projectsData).map(([id, data]: [string, any]) => ({
+            const normalizedProjects = Object.entries(projectsData).map(([id, data]: [string, any]) => ({ id, data, project: normalizeProjectData(data) }));
+            const loadedProjects: UserProject[] = normalizedProjects.map(({ id, data, project }) => ({
               id,
               name: data.title || 'Untitled Project',
               lastModified: data.lastModified || 0,
@@ -174,9 +251,10 @@ export default function MindScopePage() {
                 projectType: data.metadata?.projectType || 'web-app',
                 complexity: data.metadata?.complexity || 'moderate'
               },
-              progressPercentage: calculateProjectProgress(normalizeProjectData(data))
+              progressPercentage: calculateProjectProgress(project)
             })).sort((a,b) => (b.lastModified || 0) - (a.lastModified || 0)); // Sort by lastModified desc
             setUserProjects(loadedProjects);
+            setCalibrationProfile(learnCalibration(normalizedProjects.map(({ project }) => project)));
             
             if (loadedProjects.length > 0 && !activeProjectId) {
                // If no active project ID set, or if the current active one is no longer valid, set to the most recent.
@@ -432,8 +510,13 @@ export default function MindScopePage() {
         return;
       }
 
+      // Adjust the AI's hours to how this user's team has actually performed
+      const calibratedPhases = calibratePhases(project.phases, calibrationProfile);
       const newProject: Project = {
         ...project,
+        phases: calibratedPhases,
+        totalEstimatedTime: calibratedPhases.reduce((total, phase) =>
+          total + phase.microtasks.reduce((phaseTotal, task) => phaseTotal + task.estimatedTime, 0), 0),
         lastModified: serverTimestamp() as any
       };
       
@@ -523,11 +606,16 @@ export default function MindScopePage() {
       });
 
       const stats = getProjectStats(currentProjectData);
-      const optimization = await optimizeProject({
+      const optimizationResult = await optimizeProject({
         currentProject: JSON.stringify(currentProjectData),
         progressData: JSON.stringify(stats),
         feedback: forceRefresh ? 'User requested fresh optimization' : 'User requested optimization'
       });
+      if (!optimizationResult.ok) {
+        toast({ title: "Optimization Failed", description: describeAIFailure(optimizationResult), variant: "destructive" });
+        return;
+      }
+      const optimization = optimizationResult.data;
       
       // Transform optimization results to match dashboard expectations
       const transformedOptimizationData = {
@@ -579,6 +667,103 @@ export default function MindScopePage() {
     }
   };
 
+  const handleBreakDownMicrotask = async (phaseId: string, microtask: Microtask): Promise<Subtask[] | null> => {
+    if (!currentProjectData) return null;
+    
+    try {
+      const result = await breakDownTask(buildBreakdownInput(currentProjectData, phaseId, microtask));
+      if (!result.ok) {
+        toast({ title: "Breakdown Failed", description: describeAIFailure(result), variant: "destructive" });
+        return null;
+      }
+      const proposal = toProposedSubtasks(result.data);
+      if (proposal.length === 0) {
+        toast({ title: "No Breakdown Proposed", description: `The AI returned no subtasks for "${microtask.name}".`, variant: "destructive" });
+        return null;
+      }
+      return proposal;
+    } catch (error) {
+      console.error('Task breakdown error:', error);
+      toast({
+        title: "Breakdown Failed",
+        description: "Could not break this task down. Please try again.",
+        variant: "destructive"
+      });
+      return null;
+    }
+  };
+
+  const handleGeneratePhaseTasks = async (phaseId: string, mode: PhaseGenerationMode): Promise<PhaseDiff | null> => {
+    const phase = currentProjectData?.phases.find(p => p.id === phaseId);
+    if (!currentProjectData || !phase) return null;
+    
+    try {
+      const result = await generatePhaseTasks(buildPhaseGenerationInput(currentProjectData, phase, mode));
+      if (!result.ok) {
+        toast({ title: "Generation Failed", description: describeAIFailure(result), variant: "destructive" });
+        return null;
+      }
+      const generated = toGeneratedMicrotasks(result.data, generateId);
+      const [calibratedPhase] = calibratePhases([{ ...phase, microtasks: generated }], calibrationProfile);
+      const diff = diffPhaseTasks(phase, calibratedPhase.microtasks, mode, getBoardColumns(currentProjectData));
+      if (!hasPhaseChanges(diff)) {
+        toast({ title: "Nothing to Change", description: `The AI proposed no changes for "${phase.name}".` });
+        return null;
+      }
+      return diff;
+    } catch (error) {
+      console.error('Phase task generation error:', error);
+      toast({
+        title: "Generation Failed",
+        description: `Could not generate tasks for "${phase.name}". Please try again.`,
+        variant: "destructive"
+      });
+      return null;
+    }
+  };
+
+  const handleApplyPhaseDiff = (diff: PhaseDiff) => {
+    const phase = currentProjectDataRef.current?.phases.find(p => p.id === diff.phaseId);
+    if (!currentProjectDataRef.current || !phase) return;
+    
+    // Tasks elsewhere may still depend on the removed ones
+    const columns = getBoardColumns(currentProjectDataRef.current);
+    const updatedPhase = applyPhaseDiff(phase, diff, columns);
+    const phasesAfterApply = currentProjectDataRef.current.phases.map(p => p.id === phase.id ? updatedPhase : p);
+    const removedIds = diff.removed.map(task => task.id);
+    setDependencyIssues(validateDependencies(phasesAfterApply).filter(issue =>
+      issue.involvedTaskIds.some(taskId => removedIds.includes(taskId))
+    ));
+    
+    setCurrentProjectData(prev => prev ? {
+      ...prev,
+      phases: prev.phases.map(p => p.id === diff.phaseId ? applyPhaseDiff(p, diff, getBoardColumns(prev)) : p),
+    } : null);
+    toast({
+      title: "Phase Updated",
+      description: `${diff.added.length} added, ${diff.changed.length} revised, ${diff.removed.length} removed in "${phase.name}".`
+    });
+  };
+
+  const handleImportPlan = (parsed: ParsedPhase[]) => {
+    if (!currentProjectDataRef.current) return;
+    const imported = toImportedPhases(parsed, generateId);
+    const before = currentProjectDataRef.current.phases;
+    const merged = mergeImportedPhases(before, imported);
+    const countTasks = (phases: Phase[]) => phases.reduce((sum, phase) => sum + phase.microtasks.length, 0);
+    const addedTasks = countTasks(merged) - countTasks(before);
+    if (addedTasks === 0) {
+      toast({ title: "Nothing Imported", description: "Every task in the pasted plan is already in this project." });
+      return;
+    }
+
+    setCurrentProjectData(prev => prev ? { ...prev, phases: mergeImportedPhases(prev.phases, imported) } : null);
+    toast({
+      title: "Plan Imported",
+      description: `${addedTasks} task(s) added; ${merged.length - before.length} new phase(s) created.`
+    });
+  };
+
   const handleDeleteProject = async (projectIdToDelete: string) => {
     if (!authUser || !projectIdToDelete) return;
     const projectRef = ref(database, `users/${authUser.uid}/projects/${projectIdToDelete}`);
@@ -593,57 +778,33 @@ export default function MindScopePage() {
     setCurrentProjectData(prev => prev ? { ...prev, title, description } : null);
   };
 
-  const handleAISuggestions = useCallback((rawSuggestions: string[]) => {
+  const handleAISuggestions = useCallback((suggestedPhases: SuggestTasksOutput['phases']) => {
     if (!currentProjectData) {
         toast({ title: "No Active Project", description: "Please select or create a project first.", variant: "destructive"});
         return;
     }
-    const lines: string[] = Array.isArray(rawSuggestions)
-      ? rawSuggestions.flatMap(s => (typeof s === 'string' ? s.split(/\r\n|\r|\n/) : []))
-      : [];
-    
-    const parsedPhases = parseAISuggestions(lines);
-     if (parsedPhases.length === 0) {
+    const phasesWithTasks = suggestedPhases.filter(phase => phase.name.trim() && phase.microtasks.length > 0);
+     if (phasesWithTasks.length === 0) {
        toast({
-        title: "No Suggestions Parsed",
-        description: "The AI did not provide suggestions that could be structured, or the format was unrecognized.",
+        title: "No Suggestions Received",
+        description: "The AI did not suggest any phases with tasks for this project.",
         variant: "default",
       });
       return;
     }
 
-    setCurrentProjectData(prev => {
-      if (!prev) return null;
-      const newPhases: Phase[] = parsedPhases.map(pp => ({
-        id: generateId(),
-        name: pp.name,
-        description: '',
-        microtasks: pp.microtasks.map(pm => {
-          const microtask: Microtask = {
-            id: generateId(),
-            name: pm.name,
-            description: '',
-            estimatedTime: 0,
-            isCompleted: false,
-            priority: 'medium',
-            complexity: 'moderate',
-            dependencies: [],
-            tags: []
-            // Don't include undefined optional fields
-          };
-          return microtask;
-        }),
-        estimatedDuration: 7, // Default 7 days
-        milestone: false
-      }));
-      return { ...prev, phases: newPhases };
-    });
+    // Adjust the AI's hours to how this user's team has actually performed
+    const newPhases = calibratePhases(
+      toGeneratedPhases(phasesWithTasks, generateId, getWorkingCalendar(currentProjectData)),
+      calibrationProfile
+    );
+    setCurrentProjectData(prev => prev ? { ...prev, phases: newPhases } : null);
 
     toast({
       title: "AI Suggestions Applied",
-      description: `${parsedPhases.length} phase(s) with ${parsedPhases.reduce((acc, curr) => acc + curr.microtasks.length, 0)} microtask(s) have been added.`,
+      description: `${newPhases.length} phase(s) with ${newPhases.reduce((acc, curr) => acc + curr.microtasks.length, 0)} microtask(s) have been added.`,
     });
-  }, [currentProjectData, toast]);
+  }, [currentProjectData, calibrationProfile, toast]);
 
   const handleAIEnhancement = useCallback(async () => {
     if (!currentProjectData || !currentProjectData.title || !currentProjectData.description) {
@@ -678,49 +839,24 @@ export default function MindScopePage() {
       };
 
       // Generate enhanced project structure with AI intelligence
-      const result = await generateEnhancedProject(enhancedInput);
+      const generation = await generateEnhancedProject(enhancedInput);
+      if (!generation.ok) {
+        toast({ title: "Enhancement Failed", description: describeAIFailure(generation), variant: "destructive" });
+        return;
+      }
+      const result = generation.data;
 
       // Convert AI result to our project format with enhanced intelligence first
-      const enhancedPhases: Phase[] = result.project.phases.map((aiPhase, phaseIndex) => ({
-        id: generateId(),
-        name: aiPhase.name,
-        description: aiPhase.description,
-        estimatedDuration: aiPhase.estimatedDuration,
-        milestone: aiPhase.milestone,
-        riskAssessment: {
-          level: aiPhase.riskLevel,
-          factors: [aiPhase.description],
-          mitigation: ['Regular progress reviews', 'Clear communication']
-        },
-        microtasks: aiPhase.microtasks.map((aiTask, taskIndex) => {
-          const microtask: Microtask = {
-            id: generateId(),
-            name: aiTask.name,
-            description: aiTask.description,
-            estimatedTime: aiTask.estimatedTime,
-            isCompleted: false,
-            priority: aiTask.priority,
-            complexity: aiTask.complexity,
-            dependencies: aiTask.dependencies.map(dep => ({
-              id: generateId(),
-              dependsOn: dep,
-              type: 'prerequisite' as const,
-              description: `Depends on: ${dep}`
-            })),
-            tags: aiTask.tags
-          };
+      const generatedPhases = toGeneratedPhases(result.project.phases, generateId, getWorkingCalendar(currentProjectData));
 
-          // Only add notes if deliverables exist and are not empty
-          if (aiTask.deliverables && aiTask.deliverables.length > 0) {
-            microtask.notes = aiTask.deliverables.join(', ');
-          }
+      // Adjust the AI's hours to how this user's team has actually performed
+      const enhancedPhases = calibratePhases(generatedPhases, calibrationProfile);
 
-          return microtask;
-        })
-      }));
+      // The plan only suggests frontend, backend and database; deployment and tools stay as they were
+      const techStack = { ...currentProjectData.metadata.techStack, ...result.project.metadata.techStack };
 
       // Run parallel AI analysis for additional intelligence
-      const [techStackAnalysis, riskAssessment, timeEstimation] = await Promise.all([
+      const [techStackAnalysis, riskResult, timeEstimation] = await Promise.all([
         analyzeTechStack(
           currentProjectData.description,
           currentProjectData.metadata.projectType,
@@ -730,20 +866,22 @@ export default function MindScopePage() {
         assessProjectRisks(
           currentProjectData.description,
           enhancedPhases,
-          result.project.metadata.techStack,
+          techStack,
           currentProjectData.metadata.teamSize || 1,
           currentProjectData.metadata.timeline || 8
         ),
         enhanceTimeEstimation(
           enhancedPhases,
-          result.project.metadata.techStack,
-          currentProjectData.metadata.complexity
+          techStack,
+          currentProjectData.metadata.complexity,
+          describeCalibration(calibrationProfile)
         )
       ]);
 
-      // Update phases with actual risk assessment data
+      // Update phases with actual risk assessment data; a failed assessment keeps the generated plan
+      const riskAssessment = riskResult.ok ? riskResult.data : null;
       enhancedPhases.forEach((phase, index) => {
-        if (riskAssessment.mitigationStrategies.length > 0) {
+        if (riskAssessment && riskAssessment.mitigationStrategies.length > 0) {
           phase.riskAssessment = {
             level: phase.riskAssessment?.level || 'medium',
             factors: riskAssessment.riskFactors.slice(0, 2),
@@ -767,9 +905,7 @@ export default function MindScopePage() {
           phases: enhancedPhases,
           metadata: {
             ...prev.metadata,
-            techStack: result.project.metadata.techStack,
-            timeline: result.project.metadata.timeline,
-            complexity: result.project.metadata.complexity
+            techStack
           },
           totalEstimatedTime,
           progressPercentage: 0
@@ -778,7 +914,7 @@ export default function MindScopePage() {
 
       toast({
         title: "AI Enhancement Complete!",
-        description: `Enhanced with ${enhancedPhases.length} intelligent phases, ${totalEstimatedTime}h estimated, tech stack optimized, and risks assessed.`,
+        description: `Enhanced with ${enhancedPhases.length} intelligent phases, ${totalEstimatedTime}h estimated${calibrationProfile.sampleSize > 0 ? ` (calibrated from ${calibrationProfile.sampleSize} tracked tasks)` : ''}, tech stack optimized, and risks assessed.`,
       });
 
     } catch (error) {
@@ -804,7 +940,7 @@ export default function MindScopePage() {
         variant: "destructive"
       });
     }
-  }, [currentProjectData, toast]);
+  }, [currentProjectData, calibrationProfile, toast]);
 
 
   const handleAddPhase = (phaseName: string) => {
@@ -867,6 +1003,17 @@ export default function MindScopePage() {
     
     if (!authUser || !activeProjectId || !currentProjectDataRef.current) return;
     
+    // Surface only the invalid dependencies this write introduces; problems that were already there stay quiet
+    const phasesAfterUpdate = currentProjectDataRef.current.phases.map((p): Phase =>
+      p.id === phaseId
+        ? { ...p, microtasks: p.microtasks.map(mt => mt.id === updatedMicrotask.id ? updatedMicrotask : mt) }
+        : p
+    );
+    setDependencyIssues(getIntroducedIssues(
+      validateDependencies(currentProjectDataRef.current.phases),
+      getIssuesForTask(validateDependencies(phasesAfterUpdate), updatedMicrotask.id)
+    ));
+    
     // For completion status changes, update immediately without debouncing
     const isCompletionUpdate = 'isCompleted' in updatedMicrotask;
     
@@ -935,6 +1082,17 @@ export default function MindScopePage() {
   }, [authUser, activeProjectId, toast, cleanUndefinedValues]);
 
   const handleDeleteMicrotask = (phaseId: string, microtaskId: string) => {
+    // Other tasks may still depend on the deleted one; problems that were already there stay quiet
+    if (currentProjectDataRef.current) {
+      const phasesAfterDelete = currentProjectDataRef.current.phases.map(p =>
+        p.id === phaseId ? { ...p, microtasks: p.microtasks.filter(mt => mt.id !== microtaskId) } : p
+      );
+      setDependencyIssues(getIntroducedIssues(
+        validateDependencies(currentProjectDataRef.current.phases),
+        getIssuesForTask(validateDependencies(phasesAfterDelete), microtaskId)
+      ));
+    }
+    
     setCurrentProjectData(prev => prev ? {
       ...prev,
       phases: prev.phases.map(p =>
@@ -945,11 +1103,58 @@ export default function MindScopePage() {
     } : null);
     toast({ title: "Microtask Deleted", variant: "destructive"});
   };
+
+  const handleRepairDependency = (issue: DependencyIssue, action: DependencyRepairAction, newDependsOn?: string) => {
+    if (!currentProjectDataRef.current) return;
+    
+    const repairedPhases = repairDependencyIssue(currentProjectDataRef.current.phases, issue, action, newDependsOn);
+    setCurrentProjectData(prev => prev ? { ...prev, phases: repairedPhases } : null);
+    
+    // Keep showing what is still broken, including anything the repair itself introduced
+    const pendingDependencyIds = dependencyIssues
+      .filter(pending => pending.dependencyId !== issue.dependencyId)
+      .map(pending => pending.dependencyId);
+    setDependencyIssues(validateDependencies(repairedPhases).filter(remaining =>
+      remaining.dependencyId === issue.dependencyId || pendingDependencyIds.includes(remaining.dependencyId)
+    ));
+    
+    toast({ title: "Dependency Repaired", description: `Updated dependency of "${issue.taskName}".` });
+  };
+  
+  const handleUpdateBoardColumns = (boardColumns: BoardColumn[]) => {
+    setCurrentProjectData(prev => prev ? { ...prev, boardColumns } : null);
+  };
+  
+  const handleUpdateCalendar = (calendar: WorkingCalendar) => {
+    setCurrentProjectData(prev => prev ? { ...prev, metadata: { ...prev.metadata, calendar } } : null);
+  };
+
+  const handleUpdateCostSettings = (settings: CostSettings) => {
+    setCurrentProjectData(prev => {
+      if (!prev) return null;
+      // Firebase rejects undefined, so cleared settings are removed from the metadata
+      const metadata = { ...prev.metadata, ...settings };
+      if (settings.budget === undefined) delete metadata.budget;
+      if (settings.hourlyRate === undefined) delete metadata.hourlyRate;
+      if (!settings.memberRates || settings.memberRates.length === 0) delete metadata.memberRates;
+      return { ...prev, metadata };
+    });
+  };
+  
+  const handleUpdateSprints = (sprints: Sprint[]) => {
+    // Firebase rejects undefined, so a cleared goal is removed from the sprint
+    const cleanSprints = sprints.map(sprint => {
+      const cleanSprint = { ...sprint };
+      if (!cleanSprint.goal) delete cleanSprint.goal;
+      return cleanSprint;
+    });
+    setCurrentProjectData(prev => prev ? { ...prev, sprints: cleanSprints } : null);
+  };
   
   const handleUpdateTeam = (team: string[]) => {
     setCurrentProjectData(prev => {
         if (!prev) return null;
-        const newProjectData = { ...prev, team };
+        const newProjectData = removeStaleAssignees({ ...prev, team });
         if (localCurrentUserIdentifier && !team.includes(localCurrentUserIdentifier) && prev.team.includes(localCurrentUserIdentifier)) {
             // Potentially handle if current user removed themselves from team
         }
@@ -1086,10 +1291,20 @@ export default function MindScopePage() {
           </div>
         )}
 
+        {/* Dependency Repair Dialog */}
+        {currentProjectData && (
+          <DependencyIssuesDialog
+            issues={dependencyIssues}
+            phases={currentProjectData.phases}
+            onRepair={handleRepairDependency}
+            onDismiss={() => setDependencyIssues([])}
+          />
+        )}
+
         {/* Main Project Interface */}
         {activeProjectId && currentProjectData ? (
           <Tabs value={activeTab} onValueChange={(value: any) => setActiveTab(value)} className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-6">
               <TabsTrigger value="overview" className="flex items-center gap-2">
                 <BarChart3 className="h-4 w-4" />
                 Overview
@@ -1098,6 +1313,18 @@ export default function MindScopePage() {
                 <Plus className="h-4 w-4" />
                 Tasks
               </TabsTrigger>
+              <TabsTrigger value="board" className="flex items-center gap-2">
+                <Kanban className="h-4 w-4" />
+                Board
+              </TabsTrigger>
+              <TabsTrigger value="sprints" className="flex items-center gap-2">
+                <IterationCw className="h-4 w-4" />
+                Sprints
+              </TabsTrigger>
+              <TabsTrigger value="timeline" className="flex items-center gap-2">
+                <ChartGantt className="h-4 w-4" />
+                Timeline
+              </TabsTrigger>
               <TabsTrigger value="intelligence" className="flex items-center gap-2">
                 <Brain className="h-4 w-4" />
                 AI Intelligence
@@ -1118,9 +1345,17 @@ export default function MindScopePage() {
               {currentProjectData.phases.length > 0 && (
                 <OverallProgress project={currentProjectData} />
               )}
+              
+              {currentProjectData.phases.length > 0 && (
+                <BurnCharts project={currentProjectData} />
+              )}
             </TabsContent>
 
             <TabsContent value="tasks" className="space-y-6">
+              <TeamSettings
+                project={currentProjectData}
+                onUpdateTeam={handleUpdateTeam}
+              />
               <TaskList
                 project={currentProjectData}
                 onAddPhase={handleAddPhase}
@@ -1129,6 +1364,45 @@ export default function MindScopePage() {
                 onAddMicrotask={handleAddMicrotask}
                 onUpdateMicrotask={handleUpdateMicrotask}
                 onDeleteMicrotask={handleDeleteMicrotask}
+                onBreakDownMicrotask={handleBreakDownMicrotask}
+                onGeneratePhaseTasks={handleGeneratePhaseTasks}
+                onApplyPhaseDiff={handleApplyPhaseDiff}
+                onImportPlan={handleImportPlan}
+              />
+            </TabsContent>
+
+            <TabsContent value="board" className="space-y-6">
+              <KanbanBoard
+                project={currentProjectData}
+                onUpdateMicrotask={handleUpdateMicrotask}
+                onUpdateBoardColumns={handleUpdateBoardColumns}
+              />
+            </TabsContent>
+
+            <TabsContent value="sprints" className="space-y-6">
+              <SprintPlanning
+                project={currentProjectData}
+                onUpdateSprints={handleUpdateSprints}
+              />
+              <SprintReview
+                project={currentProjectData}
+                onUpdateSprints={handleUpdateSprints}
+              />
+            </TabsContent>
+
+            <TabsContent value="timeline" className="space-y-6">
+              <WorkingCalendarSettings
+                project={currentProjectData}
+                onUpdateCalendar={handleUpdateCalendar}
+              />
+              <GanttChart
+                project={currentProjectData}
+                onUpdatePhase={handleUpdatePhase}
+                onUpdateMicrotask={handleUpdateMicrotask}
+              />
+              <WorkloadView
+                project={currentProjectData}
+                onUpdateMicrotask={handleUpdateMicrotask}
               />
             </TabsContent>
 
@@ -1136,6 +1410,7 @@ export default function MindScopePage() {
               <ProjectIntelligenceDashboard
                 project={currentProjectData}
                 onOptimizeProject={handleOptimizeProject}
+                onUpdateCostSettings={handleUpdateCostSettings}
                 optimizationResults={currentProjectData.optimizationResults ? {
                   optimizations: currentProjectData.optimizationResults.optimizations,
                   timelinePrediction: currentProjectData.optimizationResults.timelinePrediction,
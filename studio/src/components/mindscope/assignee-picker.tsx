@@ -0,0 +1,46 @@
+// src/components/mindscope/assignee-picker.tsx
+"use client";
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+
+interface AssigneePickerProps {
+  team: string[];
+  value: string[];
+  onChange: (assignees: string[]) => void;
+}
+
+export function AssigneePicker({ team, value, onChange }: AssigneePickerProps) {
+  // Keep showing people who have left the team so they can still be unassigned
+  const people = [...team, ...value.filter(member => !team.includes(member))];
+
+  const toggle = (member: string) => {
+    onChange(value.includes(member) ? value.filter(m => m !== member) : [...value, member]);
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label>Assignees</Label>
+      {people.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Add people to the project team to assign this task.</p>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {people.map(member => (
+            <Button
+              key={member}
+              type="button"
+              size="sm"
+              variant={value.includes(member) ? 'default' : 'outline'}
+              className="h-7"
+              onClick={() => toggle(member)}
+            >
+              {member}
+              {!team.includes(member) && <span className="ml-1 text-xs opacity-70">(left)</span>}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
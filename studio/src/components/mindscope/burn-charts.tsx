@@ -0,0 +1,93 @@
+// src/components/mindscope/burn-charts.tsx
+"use client";
+
+import React, { useMemo } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import type { Project } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import { TrendingDown } from 'lucide-react';
+import { buildBurnChartData } from '@/lib/services/burn-charts';
+
+interface BurnChartsProps {
+  project: Project;
+}
+
+const burndownConfig = {
+  remainingHours: { label: 'Remaining hours', color: 'hsl(var(--chart-1))' },
+  idealRemainingHours: { label: 'Ideal', color: 'hsl(var(--chart-3))' }
+} satisfies ChartConfig;
+
+const burnupConfig = {
+  completedHours: { label: 'Completed hours', color: 'hsl(var(--chart-2))' },
+  scopeHours: { label: 'Scope', color: 'hsl(var(--chart-4))' }
+} satisfies ChartConfig;
+
+const formatDay = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+export function BurnCharts({ project }: BurnChartsProps) {
+  const data = useMemo(() => buildBurnChartData(project), [project]);
+  const hasTimeline = Boolean(project.metadata?.timeline);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingDown className="h-5 w-5" />
+          Burndown &amp; Burnup
+        </CardTitle>
+        <CardDescription>
+          Estimated hours over time from task completion history
+          {hasTimeline ? `, against an ideal ${project.metadata.timeline}-week timeline` : '. Set a timeline to see the ideal line'}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="burndown">
+          <TabsList>
+            <TabsTrigger value="burndown">Burndown</TabsTrigger>
+            <TabsTrigger value="burnup">Burnup</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="burndown">
+            <ChartContainer config={burndownConfig} className="h-72 w-full aspect-auto">
+              <LineChart data={data} margin={{ left: 4, right: 12, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={40} unit="h" />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatDay(payload[0]?.payload.date)} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="remainingHours" type="stepAfter" stroke="var(--color-remainingHours)" strokeWidth={2} dot={false} connectNulls={false} />
+                {hasTimeline && (
+                  <Line dataKey="idealRemainingHours" type="linear" stroke="var(--color-idealRemainingHours)" strokeDasharray="5 5" strokeWidth={1.5} dot={false} />
+                )}
+              </LineChart>
+            </ChartContainer>
+          </TabsContent>
+
+          <TabsContent value="burnup">
+            <ChartContainer config={burnupConfig} className="h-72 w-full aspect-auto">
+              <LineChart data={data} margin={{ left: 4, right: 12, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={40} unit="h" />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatDay(payload[0]?.payload.date)} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="completedHours" type="stepAfter" stroke="var(--color-completedHours)" strokeWidth={2} dot={false} connectNulls={false} />
+                <Line dataKey="scopeHours" type="linear" stroke="var(--color-scopeHours)" strokeDasharray="5 5" strokeWidth={1.5} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
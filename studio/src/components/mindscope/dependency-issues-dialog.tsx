@@ -0,0 +1,112 @@
+// src/components/mindscope/dependency-issues-dialog.tsx
+"use client";
+
+import React, { useState } from 'react';
+import type { Phase } from '@/lib/types';
+import type { DependencyIssue, DependencyRepairAction } from '@/lib/services/dependency-validator';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle, Trash2, GitBranch, Link2 } from 'lucide-react';
+
+interface DependencyIssuesDialogProps {
+  issues: DependencyIssue[];
+  phases: Phase[];
+  onRepair: (issue: DependencyIssue, action: DependencyRepairAction, newDependsOn?: string) => void;
+  onDismiss: () => void;
+}
+
+const ISSUE_LABELS: Record<DependencyIssue['kind'], string> = {
+  'self-reference': 'Self reference',
+  'dangling': 'Missing task',
+  'cycle': 'Cycle'
+};
+
+export function DependencyIssuesDialog({ issues, phases, onRepair, onDismiss }: DependencyIssuesDialogProps) {
+  const [repointTargets, setRepointTargets] = useState<Record<string, string>>({});
+  const allTasks = phases.flatMap(phase => phase.microtasks);
+
+  return (
+    <AlertDialog open={issues.length > 0} onOpenChange={(open) => !open && onDismiss()}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            Invalid Task Dependencies
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            These dependencies can never be satisfied and would keep tasks blocked. Choose how to repair each one.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3 max-h-[50vh] overflow-auto">
+          {issues.map(issue => {
+            const repointTarget = repointTargets[issue.dependencyId];
+            return (
+              <div key={`${issue.taskId}-${issue.dependencyId}`} className="p-3 border rounded-lg space-y-3">
+                <div className="flex items-start gap-2">
+                  <Badge variant="destructive" className="text-xs flex-shrink-0">{ISSUE_LABELS[issue.kind]}</Badge>
+                  <p className="text-sm">{issue.message}</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button size="sm" variant="outline" onClick={() => onRepair(issue, 'drop')}>
+                    <Trash2 className="h-4 w-4 mr-1" /> Drop
+                  </Button>
+                  {issue.repairActions.includes('parallel') && (
+                    <Button size="sm" variant="outline" onClick={() => onRepair(issue, 'parallel')}>
+                      <GitBranch className="h-4 w-4 mr-1" /> Make parallel
+                    </Button>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={repointTarget || ''}
+                      onValueChange={(value) => setRepointTargets(prev => ({ ...prev, [issue.dependencyId]: value }))}
+                    >
+                      <SelectTrigger className="h-9 w-56 text-sm">
+                        <SelectValue placeholder="Re-point to task..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {allTasks
+                          .filter(task => task.id !== issue.taskId && task.id !== issue.dependsOn)
+                          .map(task => (
+                            <SelectItem key={task.id} value={task.id}>{task.name}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!repointTarget}
+                      onClick={() => onRepair(issue, 'repoint', repointTarget)}
+                    >
+                      <Link2 className="h-4 w-4 mr-1" /> Re-point
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep as is</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
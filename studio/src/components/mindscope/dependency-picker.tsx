@@ -0,0 +1,172 @@
+// src/components/mindscope/dependency-picker.tsx
+"use client";
+
+import React, { useState } from 'react';
+import type { Phase, TaskDependency, DependencyType } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Link2, PlusCircle, Search, XCircle } from 'lucide-react';
+
+interface DependencyPickerProps {
+  microtaskId: string;
+  phases: Phase[];
+  dependencies: TaskDependency[];
+  onChange: (dependencies: TaskDependency[]) => void;
+}
+
+const DEPENDENCY_TYPE_LABELS: Record<DependencyType, string> = {
+  blocks: 'Blocked by',
+  prerequisite: 'Prerequisite',
+  parallel: 'Parallel with'
+};
+
+export function DependencyPicker({ microtaskId, phases, dependencies, onChange }: DependencyPickerProps) {
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const [dependencyType, setDependencyType] = useState<DependencyType>('blocks');
+  const [description, setDescription] = useState('');
+
+  const allTasks = phases.flatMap(phase => phase.microtasks);
+  const taskName = (taskId: string) => allTasks.find(task => task.id === taskId)?.name || 'Deleted task';
+  const query = searchQuery.trim().toLowerCase();
+
+  // Candidate tasks grouped by phase, excluding this task and tasks already linked
+  const candidatesByPhase = phases
+    .map(phase => ({
+      phase,
+      tasks: phase.microtasks.filter(task =>
+        task.id !== microtaskId &&
+        !dependencies.some(dep => dep.dependsOn === task.id) &&
+        (!query || task.name.toLowerCase().includes(query) || phase.name.toLowerCase().includes(query))
+      )
+    }))
+    .filter(group => group.tasks.length > 0);
+
+  const handleAddDependency = () => {
+    if (!selectedTaskId) return;
+    const newDependency: TaskDependency = {
+      id: crypto.randomUUID(),
+      dependsOn: selectedTaskId,
+      type: dependencyType
+    };
+    if (description.trim()) {
+      newDependency.description = description.trim();
+    }
+    onChange([...dependencies, newDependency]);
+    setSelectedTaskId(null);
+    setDescription('');
+    setSearchQuery('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs text-muted-foreground block">Dependencies</Label>
+
+      {dependencies.length > 0 ? (
+        <div className="space-y-1">
+          {dependencies.map(dep => (
+            <div key={dep.id} className="flex items-center justify-between gap-2 p-2 border rounded-md text-sm">
+              <div className="flex items-center gap-2 min-w-0">
+                <Badge variant="outline" className="text-xs flex-shrink-0">{DEPENDENCY_TYPE_LABELS[dep.type]}</Badge>
+                <span className="truncate">{taskName(dep.dependsOn)}</span>
+                {dep.description && (
+                  <span className="text-xs text-muted-foreground truncate">— {dep.description}</span>
+                )}
+              </div>
+              <Button
+                onClick={() => onChange(dependencies.filter(d => d.id !== dep.id))}
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6 text-muted-foreground hover:text-destructive flex-shrink-0"
+              >
+                <XCircle className="h-4 w-4" />
+                <span className="sr-only">Remove dependency</span>
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">No dependencies.</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Popover open={isSearchOpen} onOpenChange={setIsSearchOpen}>
+          <PopoverTrigger asChild>
+            <Button size="sm" variant="outline" className="h-8 max-w-[14rem] justify-start text-sm font-normal">
+              <Link2 className="h-4 w-4 mr-1 flex-shrink-0" />
+              <span className="truncate">{selectedTaskId ? taskName(selectedTaskId) : 'Choose task...'}</span>
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80 p-2" align="start">
+            <div className="flex items-center gap-2 px-1 pb-2 border-b">
+              <Search className="h-4 w-4 text-muted-foreground" />
+              <Input
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search tasks in all phases..."
+                className="h-8 text-sm border-0 shadow-none focus-visible:ring-0"
+                autoFocus
+              />
+            </div>
+            <div className="max-h-64 overflow-auto pt-2 space-y-2">
+              {candidatesByPhase.length === 0 && (
+                <p className="text-xs text-muted-foreground text-center py-4">No matching tasks.</p>
+              )}
+              {candidatesByPhase.map(({ phase, tasks }) => (
+                <div key={phase.id}>
+                  <p className="text-xs font-medium text-muted-foreground px-2 mb-1">{phase.name}</p>
+                  {tasks.map(task => (
+                    <button
+                      key={task.id}
+                      type="button"
+                      onClick={() => {
+                        setSelectedTaskId(task.id);
+                        setIsSearchOpen(false);
+                      }}
+                      className="w-full text-left text-sm px-2 py-1 rounded hover:bg-muted truncate"
+                    >
+                      {task.name}
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <Select value={dependencyType} onValueChange={(value) => setDependencyType(value as DependencyType)}>
+          <SelectTrigger className="h-8 w-36 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(DEPENDENCY_TYPE_LABELS) as DependencyType[]).map(type => (
+              <SelectItem key={type} value={type}>{DEPENDENCY_TYPE_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          className="h-8 text-sm flex-grow min-w-[8rem]"
+        />
+
+        <Button onClick={handleAddDependency} size="sm" variant="outline" className="h-8" disabled={!selectedTaskId}>
+          <PlusCircle className="h-4 w-4 mr-1" /> Add
+        </Button>
+      </div>
+    </div>
+  );
+}
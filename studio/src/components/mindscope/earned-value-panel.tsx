@@ -0,0 +1,196 @@
+// src/components/mindscope/earned-value-panel.tsx
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Project, MemberRate } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { DollarSign } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  calculateEarnedValue,
+  formatCurrency,
+  validateCostSettings,
+  type CostSettings
+} from '@/lib/services/earned-value';
+
+interface EarnedValuePanelProps {
+  project: Project;
+  onUpdateCostSettings?: (settings: CostSettings) => void;
+}
+
+// Index colours: at or above 1 is on budget/schedule, slightly below is a warning
+const indexClass = (index: number | null) => {
+  if (index === null) return 'text-gray-500';
+  if (index >= 1) return 'text-green-600';
+  if (index >= 0.9) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+const formatIndex = (index: number | null) => (index === null ? '—' : index.toFixed(2));
+
+export function EarnedValuePanel({ project, onUpdateCostSettings }: EarnedValuePanelProps) {
+  const metrics = useMemo(() => calculateEarnedValue(project), [project]);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5" />
+            Earned Value
+          </CardTitle>
+          <CardDescription>
+            {metrics
+              ? `Budget at completion ${formatCurrency(metrics.budgetAtCompletion)}${metrics.isBudgetDerived ? ' (estimated hours × rate)' : ''} at ${formatCurrency(metrics.hourlyRate)}/h`
+              : 'Set a budget or an hourly rate to track cost against progress.'}
+          </CardDescription>
+        </CardHeader>
+        {metrics && (
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <p className="text-xl font-bold">{formatCurrency(metrics.plannedValue)}</p>
+                <p className="text-xs text-gray-600">Planned value (PV)</p>
+              </div>
+              <div>
+                <p className="text-xl font-bold">{formatCurrency(metrics.earnedValue)}</p>
+                <p className="text-xs text-gray-600">Earned value (EV)</p>
+              </div>
+              <div>
+                <p className="text-xl font-bold">{formatCurrency(metrics.actualCost)}</p>
+                <p className="text-xs text-gray-600">Actual cost (AC)</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>Budget spent</span>
+                <span>{formatCurrency(metrics.actualCost)} of {formatCurrency(metrics.budgetAtCompletion)}</span>
+              </div>
+              <Progress value={metrics.budgetAtCompletion > 0 ? Math.min(100, (metrics.actualCost / metrics.budgetAtCompletion) * 100) : 0} />
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-gray-600">CPI</p>
+                <p className={`font-semibold ${indexClass(metrics.cpi)}`}>{formatIndex(metrics.cpi)}</p>
+                <p className="text-xs text-gray-500">CV {formatCurrency(metrics.costVariance)}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">SPI</p>
+                <p className={`font-semibold ${indexClass(metrics.spi)}`}>{formatIndex(metrics.spi)}</p>
+                <p className="text-xs text-gray-500">SV {formatCurrency(metrics.scheduleVariance)}</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Estimate at completion</p>
+                <p className="font-semibold">{formatCurrency(metrics.estimateAtCompletion)}</p>
+                <p className="text-xs text-gray-500">{formatCurrency(metrics.estimateToComplete)} to go</p>
+              </div>
+              <div>
+                <p className="text-gray-600">Variance at completion</p>
+                <p className={`font-semibold ${metrics.varianceAtCompletion < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {formatCurrency(metrics.varianceAtCompletion)}
+                </p>
+                <p className="text-xs text-gray-500">{metrics.varianceAtCompletion < 0 ? 'Over budget' : 'Within budget'}</p>
+              </div>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      {onUpdateCostSettings && <CostSettingsForm project={project} onSave={onUpdateCostSettings} />}
+    </div>
+  );
+}
+
+interface CostSettingsFormProps {
+  project: Project;
+  onSave: (settings: CostSettings) => void;
+}
+
+const toInputValue = (value?: number) => (value === undefined ? '' : value.toString());
+const parseAmount = (value: string) => (value.trim() === '' ? undefined : parseFloat(value));
+
+function CostSettingsForm({ project, onSave }: CostSettingsFormProps) {
+  const { toast } = useToast();
+  const [budget, setBudget] = useState(toInputValue(project.metadata.budget));
+  const [hourlyRate, setHourlyRate] = useState(toInputValue(project.metadata.hourlyRate));
+  const [memberRates, setMemberRates] = useState<Record<string, string>>({});
+
+  // Reset the form when another project (or a remote change) is loaded
+  useEffect(() => {
+    setBudget(toInputValue(project.metadata.budget));
+    setHourlyRate(toInputValue(project.metadata.hourlyRate));
+    setMemberRates(Object.fromEntries(
+      (project.metadata.memberRates || []).map(rate => [rate.member, rate.hourlyRate.toString()])
+    ));
+  }, [project.metadata.budget, project.metadata.hourlyRate, project.metadata.memberRates]);
+
+  const handleSave = () => {
+    // Only people still on the team with a rate filled in are kept
+    const rates: MemberRate[] = project.team
+      .filter(member => (memberRates[member] || '').trim() !== '')
+      .map(member => ({ member, hourlyRate: parseFloat(memberRates[member]) }));
+    const settings: CostSettings = {
+      budget: parseAmount(budget),
+      hourlyRate: parseAmount(hourlyRate),
+      memberRates: rates
+    };
+
+    const error = validateCostSettings(settings);
+    if (error) {
+      toast({ title: "Invalid Cost Settings", description: error, variant: "destructive" });
+      return;
+    }
+    onSave(settings);
+    toast({ title: "Cost Settings Updated", description: "Earned value metrics now use the new rates." });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Budget &amp; Rates</CardTitle>
+        <CardDescription>Amounts are in USD. Time logged by a team member is charged at their rate.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="cost-budget">Budget</Label>
+            <Input id="cost-budget" type="number" min="0" value={budget} onChange={(e) => setBudget(e.target.value)} placeholder="e.g., 50000" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="cost-rate">Hourly rate</Label>
+            <Input id="cost-rate" type="number" min="0" value={hourlyRate} onChange={(e) => setHourlyRate(e.target.value)} placeholder="Budget / estimated hours" />
+          </div>
+        </div>
+
+        {project.team.length > 0 && (
+          <div className="space-y-2">
+            <Label>Team member rates</Label>
+            {project.team.map(member => (
+              <div key={member} className="flex items-center gap-2">
+                <Badge variant="outline" className="flex-grow justify-start truncate">{member}</Badge>
+                <Input
+                  type="number"
+                  min="0"
+                  className="w-32"
+                  value={memberRates[member] || ''}
+                  onChange={(e) => setMemberRates(prev => ({ ...prev, [member]: e.target.value }))}
+                  placeholder="Project rate"
+                  aria-label={`Hourly rate for ${member}`}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button onClick={handleSave} size="sm">Save Rates</Button>
+      </CardContent>
+    </Card>
+  );
+}
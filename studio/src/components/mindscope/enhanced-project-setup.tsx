@@ -26,9 +26,19 @@ import {
   X
 } from 'lucide-react';
 import { generateEnhancedProject, type EnhancedProjectInput } from '@/ai/flows/enhanced-project-flow';
+import { describeAIFailure } from '@/ai/results';
 import { getProjectTemplates, createProjectFromTemplate } from '@/lib/services/project-templates';
+import { toGeneratedPhases } from '@/lib/services/phase-regeneration';
 import type { ProjectTemplate } from '@/lib/types';
 
+// The lists are collected alongside the flow input; only the target platforms are kept on the project
+type SmartSetupFormData = EnhancedProjectInput & {
+  targetPlatforms: string[];
+  requiredFeatures: string[];
+  preferredTech: string[];
+  constraints: string[];
+};
+
 interface EnhancedProjectSetupProps {
   onProjectCreated: (project: any) => void;
   onCancel: () => void;
@@ -38,10 +48,11 @@ export function EnhancedProjectSetup({ onProjectCreated, onCancel }: EnhancedPro
   const [activeTab, setActiveTab] = useState('smart-setup');
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationProgress, setGenerationProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
   const [selectedTemplate, setSelectedTemplate] = useState<ProjectTemplate | null>(null);
   
   // Smart setup form state
-  const [formData, setFormData] = useState<EnhancedProjectInput>({
+  const [formData, setFormData] = useState<SmartSetupFormData>({
     projectName: '',
     projectDescription: '',
     projectType: 'web-app',
@@ -81,6 +92,7 @@ export function EnhancedProjectSetup({ onProjectCreated, onCancel }: EnhancedPro
 
     setIsGenerating(true);
     setGenerationProgress(10);
+    setError(null);
 
     try {
       // Simulate progress updates
@@ -88,54 +100,31 @@ export function EnhancedProjectSetup({ onProjectCreated, onCancel }: EnhancedPro
         setGenerationProgress(prev => Math.min(prev + 10, 90));
       }, 500);
 
-      const result = await generateEnhancedProject(formData);
+      const generation = await generateEnhancedProject(formData);
       
       clearInterval(progressInterval);
+      if (!generation.ok) {
+        setError(`AI Error: ${describeAIFailure(generation)}`);
+        return;
+      }
+      const result = generation.data;
       setGenerationProgress(100);
 
       // Convert the AI result to our project format
       const project = {
         title: result.project.title,
         description: result.project.description,
-        phases: result.project.phases.map((phase, phaseIndex) => ({
-          id: `phase-${phaseIndex}`,
-          name: phase.name,
-          description: phase.description,
-          microtasks: phase.microtasks.map((task, taskIndex) => ({
-            id: `task-${phaseIndex}-${taskIndex}`,
-            name: task.name,
-            description: task.description,
-            estimatedTime: task.estimatedTime,
-            isCompleted: false,
-            priority: task.priority,
-            complexity: task.complexity,
-            dependencies: task.dependencies.map(dep => ({
-              id: `dep-${taskIndex}`,
-              dependsOn: dep,
-              type: 'prerequisite' as const,
-              description: `Depends on: ${dep}`
-            })),
-            tags: task.tags,
-            ...(task.deliverables && task.deliverables.length > 0 && {
-              notes: task.deliverables.join(', ')
-            })
-          })),
-          estimatedDuration: phase.estimatedDuration,
-          milestone: phase.milestone,
-          riskAssessment: {
-            level: phase.riskLevel,
-            factors: [`${phase.riskLevel} risk phase`],
-            mitigation: ['Regular progress reviews', 'Clear communication']
-          }
-        })),
+        phases: toGeneratedPhases(result.project.phases, () => crypto.randomUUID()),
         team: [],
         metadata: {
-          projectType: result.project.metadata.projectType,
-          targetPlatform: result.project.metadata.targetPlatform,
-          techStack: result.project.metadata.techStack,
-          teamSize: result.project.metadata.teamSize,
-          timeline: result.project.metadata.timeline,
-          complexity: result.project.metadata.complexity
+          // The plan only suggests a tech stack; everything else comes from the form
+          projectType: formData.projectType || 'web-app',
+          targetPlatform: formData.targetPlatforms,
+          techStack: { ...result.project.metadata.techStack, deployment: [], tools: [] },
+          teamSize: formData.teamSize || 1,
+          timeline: formData.timeline,
+          complexity: formData.experience || 'moderate',
+          ...(formData.budget ? { budget: formData.budget } : {})
         },
         totalEstimatedTime: result.project.phases.reduce((total, phase) =>
           total + phase.microtasks.reduce((phaseTotal, task) =>
@@ -164,9 +153,7 @@ export function EnhancedProjectSetup({ onProjectCreated, onCancel }: EnhancedPro
           errorMessage = `AI Generation failed: ${error.message}`;
         }
       }
-      
-      // You can show an error state in the UI here
-      console.error('Project generation error:', errorMessage);
+      setError(errorMessage);
     } finally {
       setIsGenerating(false);
       setGenerationProgress(0);
@@ -194,7 +181,7 @@ export function EnhancedProjectSetup({ onProjectCreated, onCancel }: EnhancedPro
     });
   };
 
-  const addToArray = (field: keyof Pick<EnhancedProjectInput, 'targetPlatforms' | 'requiredFeatures' | 'preferredTech' | 'constraints'>, value: string) => {
+  const addToArray = (field: keyof Pick<SmartSetupFormData, 'targetPlatforms' | 'requiredFeatures' | 'preferredTech' | 'constraints'>, value: string) => {
     if (!value.trim()) return;
     setFormData(prev => ({
       ...prev,
@@ -202,7 +189,7 @@ export function EnhancedProjectSetup({ onProjectCreated, onCancel }: EnhancedPro
     }));
   };
 
-  const removeFromArray = (field: keyof Pick<EnhancedProjectInput, 'targetPlatforms' | 'requiredFeatures' | 'preferredTech' | 'constraints'>, index: number) => {
+  const removeFromArray = (field: keyof Pick<SmartSetupFormData, 'targetPlatforms' | 'requiredFeatures' | 'preferredTech' | 'constraints'>, index: number) => {
     setFormData(prev => ({
       ...prev,
       [field]: (prev[field] || []).filter((_, i) => i !== index)
@@ -437,6 +424,13 @@ export function EnhancedProjectSetup({ onProjectCreated, onCancel }: EnhancedPro
                 </Alert>
               )}
 
+              {error && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
               <div className="flex gap-3 pt-4">
                 <Button 
                   onClick={handleSmartGeneration} 
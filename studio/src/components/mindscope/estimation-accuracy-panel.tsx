@@ -0,0 +1,166 @@
+// src/components/mindscope/estimation-accuracy-panel.tsx
+"use client";
+
+import React, { useMemo } from 'react';
+import type { Project } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Crosshair, AlertTriangle } from 'lucide-react';
+import {
+  analyzeEstimationAccuracy,
+  type EstimationDimension,
+  type EstimationGroup
+} from '@/lib/services/estimation-accuracy';
+
+interface EstimationAccuracyPanelProps {
+  project: Project;
+}
+
+const DIMENSIONS: Array<{ value: EstimationDimension; label: string }> = [
+  { value: 'complexity', label: 'Complexity' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'tag', label: 'Tags' },
+  { value: 'phase', label: 'Phase' }
+];
+
+const ratioLabel = (ratio: number) => {
+  const percent = Math.round((ratio - 1) * 100);
+  if (Math.abs(percent) < 5) return 'on target';
+  return percent > 0 ? `${percent}% over` : `${-percent}% under`;
+};
+
+const ratioClass = (ratio: number) => {
+  if (ratio >= 1.5) return 'text-red-600';
+  if (ratio >= 1.15) return 'text-orange-600';
+  if (ratio <= 0.75) return 'text-blue-600';
+  return 'text-green-600';
+};
+
+export function EstimationAccuracyPanel({ project }: EstimationAccuracyPanelProps) {
+  const report = useMemo(() => analyzeEstimationAccuracy(project), [project]);
+
+  if (!report.overall) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Crosshair className="h-5 w-5" />
+            Estimation Accuracy
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-gray-500 text-sm">Track time on tasks and complete them to compare estimates with actual hours.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Crosshair className="h-5 w-5" />
+            Estimation Accuracy
+          </CardTitle>
+          <CardDescription>
+            Estimated vs tracked hours across {report.sampleSize} completed tasks:{' '}
+            <span className={`font-medium ${ratioClass(report.overall.ratio)}`}>{ratioLabel(report.overall.ratio)}</span>
+            {' '}overall, {report.overall.averageErrorPercent}% average error per task.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="complexity">
+            <TabsList className="grid w-full grid-cols-4">
+              {DIMENSIONS.map(({ value, label }) => (
+                <TabsTrigger key={value} value={value}>{label}</TabsTrigger>
+              ))}
+            </TabsList>
+            {DIMENSIONS.map(({ value, label }) => (
+              <TabsContent key={value} value={value}>
+                <AccuracyTable groups={report.groups[value]} dimensionLabel={label} />
+              </TabsContent>
+            ))}
+          </Tabs>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-500" />
+            Outlier Tasks
+          </CardTitle>
+          <CardDescription>Tasks that took at least twice, or at most half, their estimate</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {report.outliers.length > 0 ? (
+            <div className="space-y-2">
+              {report.outliers.map(({ task, phaseName, ratio }) => (
+                <div key={task.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{task.name}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {phaseName} · <span className="capitalize">{task.complexity}</span>
+                      {task.tags.length > 0 && ` · ${task.tags.join(', ')}`}
+                    </p>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p className={`text-sm font-semibold ${ratioClass(ratio)}`}>{ratio.toFixed(1)}×</p>
+                    <p className="text-xs text-gray-500">{task.estimatedTime}h → {task.actualTime}h</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500 text-sm">No task was off by more than a factor of two.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+interface AccuracyTableProps {
+  groups: EstimationGroup[];
+  dimensionLabel: string;
+}
+
+function AccuracyTable({ groups, dimensionLabel }: AccuracyTableProps) {
+  if (groups.length === 0) {
+    return <p className="text-gray-500 text-sm py-4">No tracked tasks have a {dimensionLabel.toLowerCase()} yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{dimensionLabel}</TableHead>
+          <TableHead className="text-right">Tasks</TableHead>
+          <TableHead className="text-right">Estimated</TableHead>
+          <TableHead className="text-right">Actual</TableHead>
+          <TableHead className="text-right">Actual / Estimate</TableHead>
+          <TableHead className="text-right">Avg. error</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {groups.map(group => (
+          <TableRow key={group.key}>
+            <TableCell>
+              <Badge variant="outline" className="capitalize">{group.key}</Badge>
+            </TableCell>
+            <TableCell className="text-right">{group.taskCount}</TableCell>
+            <TableCell className="text-right">{group.estimatedHours}h</TableCell>
+            <TableCell className="text-right">{group.actualHours}h</TableCell>
+            <TableCell className={`text-right font-medium ${ratioClass(group.ratio)}`}>
+              {group.ratio.toFixed(2)}× <span className="text-xs font-normal">({ratioLabel(group.ratio)})</span>
+            </TableCell>
+            <TableCell className="text-right">{group.averageErrorPercent}%</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
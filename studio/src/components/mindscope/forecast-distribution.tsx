@@ -0,0 +1,92 @@
+// src/components/mindscope/forecast-distribution.tsx
+"use client";
+
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { AlertTriangle, BarChart3 } from 'lucide-react';
+import type { CompletionForecast } from '@/lib/services/forecast';
+
+interface ForecastDistributionProps {
+  forecast: CompletionForecast;
+}
+
+const chartConfig = {
+  count: { label: 'Simulations', color: 'hsl(var(--chart-1))' }
+} satisfies ChartConfig;
+
+const formatDay = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const describeLimit = (forecast: CompletionForecast) => {
+  const share = `${forecast.unfinishedPercent}% of simulated outcomes never finish`;
+  return forecast.limit === 'no-capacity'
+    ? `${share}: nobody on the team has working hours on the calendar. Add working days or member availability to get a forecast.`
+    : `${share}: they need more hours than the team's calendar provides within the forecast horizon.`;
+};
+
+export function ForecastDistribution({ forecast }: ForecastDistributionProps) {
+  const percentiles = [
+    { label: 'P50', days: forecast.p50Days, stroke: 'hsl(var(--chart-2))' },
+    { label: 'P85', days: forecast.p85Days, stroke: 'hsl(var(--chart-4))' },
+    { label: 'P95', days: forecast.p95Days, stroke: 'hsl(var(--chart-5))' }
+  ];
+  // Reference lines sit on the bucket that contains each percentile
+  const bucketFor = (days: number | null) =>
+    days === null ? undefined : forecast.distribution.find(bucket => days <= bucket.days)?.days;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5" />
+          Forecast Distribution
+        </CardTitle>
+        <CardDescription>
+          Days to finish across simulated outcomes on the project's working calendar,
+          {forecast.usedFallbackRatios
+            ? ' using a default overrun profile until tasks have tracked time'
+            : ` sampled from ${forecast.sampleSize} completed tasks`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {forecast.limit && (
+          <div className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <p>{describeLimit(forecast)}</p>
+          </div>
+        )}
+        {forecast.distribution.length > 0 && (
+          <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+            <BarChart data={forecast.distribution} margin={{ left: 4, right: 12, top: 16 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="days" tickLine={false} axisLine={false} unit="d" minTickGap={16} />
+              <YAxis tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      const bucket = payload[0]?.payload;
+                      return bucket ? `≤ ${bucket.days} days (${formatDay(bucket.date)}) · ${bucket.cumulativePercent}% done by then` : '';
+                    }}
+                  />
+                }
+              />
+              <Bar dataKey="count" fill="var(--color-count)" radius={2} />
+              {percentiles.filter(({ days }) => days !== null).map(({ label, days, stroke }) => (
+                <ReferenceLine
+                  key={label}
+                  x={bucketFor(days)}
+                  stroke={stroke}
+                  strokeDasharray="4 4"
+                  label={{ value: label, position: 'top', fontSize: 11 }}
+                />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
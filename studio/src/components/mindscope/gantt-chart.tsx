@@ -0,0 +1,309 @@
+// src/components/mindscope/gantt-chart.tsx
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import type { Project, Phase, Microtask } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ChartGantt, Flag } from 'lucide-react';
+import { buildProjectTimeline, setPhaseDates, type TimelineBar } from '@/lib/services/timeline';
+import { DAY_MS, addCalendarDays, getWorkingCalendar, isWorkingDay } from '@/lib/services/working-calendar';
+import { isSchedulingDependency } from '@/lib/services/critical-path';
+import { markUserEdited } from '@/lib/services/phase-regeneration';
+
+interface GanttChartProps {
+  project: Project;
+  onUpdatePhase: (updatedPhase: Phase) => void;
+  onUpdateMicrotask: (phaseId: string, updatedMicrotask: Microtask) => void;
+}
+
+interface DragState {
+  kind: 'phase' | 'task';
+  id: string;
+  phaseId: string;
+  mode: 'move' | 'resize';
+  originX: number;
+  deltaDays: number;
+}
+
+const DAY_WIDTH = 28;
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+const LABEL_WIDTH = 240;
+const HEADER_HEIGHT = 40;
+const PADDING_DAYS = 3;
+
+export function GanttChart({ project, onUpdatePhase, onUpdateMicrotask }: GanttChartProps) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const timeline = useMemo(() => buildProjectTimeline(project), [project]);
+  const calendar = getWorkingCalendar(project);
+
+  const rangeStart = addCalendarDays(timeline.start, -PADDING_DAYS);
+  const totalDays = Math.ceil((timeline.end - rangeStart) / DAY_MS) + PADDING_DAYS * 2;
+  const chartWidth = totalDays * DAY_WIDTH;
+
+  // Flatten into rows: each phase followed by its tasks
+  const rows = timeline.phases.flatMap(phaseTimeline => [
+    { kind: 'phase' as const, phaseId: phaseTimeline.id, bar: phaseTimeline as TimelineBar, milestone: phaseTimeline.milestone, isCompleted: false },
+    ...phaseTimeline.tasks.map(taskBar => ({
+      kind: 'task' as const,
+      phaseId: phaseTimeline.id,
+      bar: taskBar as TimelineBar,
+      milestone: false,
+      isCompleted: taskBar.task.isCompleted
+    }))
+  ]);
+  const chartHeight = rows.length * ROW_HEIGHT;
+
+  // Apply the in-progress drag to the bar being dragged
+  const previewDates = (kind: DragState['kind'], bar: TimelineBar) => {
+    if (!drag || drag.kind !== kind || drag.id !== bar.id) return { start: bar.start, end: bar.end };
+    // Calendar-day steps keep dragged dates on local midnight across DST changes
+    const shift = (timestamp: number) => addCalendarDays(timestamp, drag.deltaDays);
+    return drag.mode === 'move'
+      ? { start: shift(bar.start), end: shift(bar.end) }
+      : { start: bar.start, end: Math.max(addCalendarDays(bar.start, 1), shift(bar.end)) };
+  };
+
+  const positions = new Map<string, { x: number; width: number; y: number }>();
+  rows.forEach((row, index) => {
+    const { start, end } = previewDates(row.kind, row.bar);
+    positions.set(`${row.kind}-${row.bar.id}`, {
+      x: ((start - rangeStart) / DAY_MS) * DAY_WIDTH,
+      width: ((end - start) / DAY_MS) * DAY_WIDTH,
+      y: index * ROW_HEIGHT + ROW_HEIGHT / 2
+    });
+  });
+
+  const handlePointerDown = (
+    e: React.PointerEvent<HTMLDivElement>,
+    kind: DragState['kind'],
+    id: string,
+    phaseId: string,
+    mode: DragState['mode']
+  ) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ kind, id, phaseId, mode, originX: e.clientX, deltaDays: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const deltaDays = Math.round((e.clientX - drag.originX) / DAY_WIDTH);
+    if (deltaDays !== drag.deltaDays) {
+      setDrag({ ...drag, deltaDays });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const currentDrag = drag;
+    setDrag(null);
+    if (currentDrag.deltaDays === 0) return;
+
+    const phaseTimeline = timeline.phases.find(p => p.id === currentDrag.phaseId);
+    if (!phaseTimeline) return;
+    const shift = (timestamp: number) => addCalendarDays(timestamp, currentDrag.deltaDays);
+
+    if (currentDrag.kind === 'phase') {
+      const { start, end } = previewDates('phase', phaseTimeline);
+      const movedPhase = setPhaseDates(project, phaseTimeline.phase, start, end);
+      // Moving a phase carries its explicitly scheduled tasks along
+      onUpdatePhase(currentDrag.mode === 'move' ? {
+        ...movedPhase,
+        microtasks: movedPhase.microtasks.map(task => task.startDate && task.endDate
+          ? { ...markUserEdited(task), startDate: shift(task.startDate), endDate: shift(task.endDate) }
+          : task)
+      } : movedPhase);
+    } else {
+      const taskBar = phaseTimeline.tasks.find(t => t.id === currentDrag.id);
+      if (!taskBar) return;
+      const { start, end } = previewDates('task', taskBar);
+      onUpdateMicrotask(phaseTimeline.id, { ...markUserEdited(taskBar.task), startDate: start, endDate: end });
+    }
+  };
+
+  const formatDay = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  const todayX = ((Date.now() - rangeStart) / DAY_MS) * DAY_WIDTH;
+
+  if (project.phases.length === 0) {
+    return (
+      <Card className="text-center">
+        <CardHeader>
+          <CardTitle>No Timeline Yet</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">Add phases and tasks to see them on the timeline.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ChartGantt className="h-5 w-5" />
+          Timeline
+        </CardTitle>
+        <CardDescription>
+          Drag bars to reschedule, drag the right edge to change the end date. Undated items are placed from estimates on working days; shaded columns are weekends and holidays.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex border rounded-lg overflow-hidden">
+          {/* Row labels */}
+          <div className="flex-shrink-0 border-r bg-muted/30" style={{ width: LABEL_WIDTH }}>
+            <div className="border-b px-3 flex items-center text-xs font-medium text-muted-foreground" style={{ height: HEADER_HEIGHT }}>
+              Phase / Task
+            </div>
+            {rows.map(row => (
+              <div
+                key={`${row.kind}-${row.bar.id}`}
+                className={`flex items-center gap-2 px-3 border-b text-sm truncate ${row.kind === 'phase' ? 'font-semibold bg-muted/50' : 'pl-6 text-muted-foreground'}`}
+                style={{ height: ROW_HEIGHT }}
+                title={row.bar.name}
+              >
+                {row.milestone && <Flag className="h-3 w-3 text-purple-600 flex-shrink-0" />}
+                <span className="truncate">{row.bar.name}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* Timeline grid */}
+          <div className="overflow-x-auto flex-grow">
+            <div
+              className="relative select-none"
+              style={{ width: chartWidth, height: HEADER_HEIGHT + chartHeight }}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDrag(null)}
+            >
+              {/* Day header, labelled weekly */}
+              <div className="absolute top-0 left-0 flex border-b" style={{ height: HEADER_HEIGHT, width: chartWidth }}>
+                {Array.from({ length: totalDays }, (_, dayIndex) => {
+                  const day = addCalendarDays(rangeStart, dayIndex);
+                  const isWeekStart = new Date(day).getDay() === 1;
+                  return (
+                    <div
+                      key={dayIndex}
+                      className={`flex-shrink-0 text-[10px] text-muted-foreground ${isWeekStart ? 'border-l' : ''}`}
+                      style={{ width: DAY_WIDTH }}
+                    >
+                      {isWeekStart && <span className="pl-1 whitespace-nowrap">{formatDay(day)}</span>}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="absolute left-0" style={{ top: HEADER_HEIGHT, width: chartWidth, height: chartHeight }}>
+                {/* Row stripes */}
+                {rows.map((row, index) => (
+                  <div
+                    key={`stripe-${row.kind}-${row.bar.id}`}
+                    className={`absolute left-0 border-b ${row.kind === 'phase' ? 'bg-muted/30' : ''}`}
+                    style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT, width: chartWidth }}
+                  />
+                ))}
+
+                {/* Weekends and holidays */}
+                {Array.from({ length: totalDays }, (_, dayIndex) => addCalendarDays(rangeStart, dayIndex))
+                  .map((day, dayIndex) => isWorkingDay(calendar, day) ? null : (
+                    <div
+                      key={`off-${dayIndex}`}
+                      className="absolute top-0 bottom-0 bg-muted/40 pointer-events-none"
+                      style={{ left: dayIndex * DAY_WIDTH, width: DAY_WIDTH }}
+                    />
+                  ))}
+
+                {/* Today marker */}
+                {todayX >= 0 && todayX <= chartWidth && (
+                  <div className="absolute top-0 bottom-0 w-px bg-red-400" style={{ left: todayX }} title="Today" />
+                )}
+
+                {/* Dependency arrows */}
+                <svg className="absolute inset-0 pointer-events-none" width={chartWidth} height={chartHeight}>
+                  <defs>
+                    <marker id="gantt-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                      <path d="M 0 0 L 10 5 L 0 10 z" className="fill-muted-foreground" />
+                    </marker>
+                  </defs>
+                  {timeline.phases.flatMap(phaseTimeline => phaseTimeline.tasks).flatMap(taskBar =>
+                    taskBar.task.dependencies.map(dep => {
+                      const from = positions.get(`task-${dep.dependsOn}`);
+                      const to = positions.get(`task-${taskBar.id}`);
+                      if (!from || !to || dep.dependsOn === taskBar.id) return null;
+                      const startX = from.x + from.width;
+                      const elbowX = startX + 8;
+                      return (
+                        <path
+                          key={`${taskBar.id}-${dep.id}`}
+                          d={`M ${startX} ${from.y} H ${elbowX} V ${to.y} H ${to.x}`}
+                          fill="none"
+                          className="stroke-muted-foreground"
+                          strokeWidth={1}
+                          strokeDasharray={isSchedulingDependency(dep) ? undefined : '4 3'}
+                          markerEnd="url(#gantt-arrow)"
+                        />
+                      );
+                    })
+                  )}
+                </svg>
+
+                {/* Bars */}
+                {rows.map(row => {
+                  const position = positions.get(`${row.kind}-${row.bar.id}`)!;
+                  const isDragging = drag?.kind === row.kind && drag.id === row.bar.id;
+                  const barColor = row.kind === 'phase'
+                    ? (row.milestone ? 'bg-purple-500' : 'bg-primary')
+                    : (row.isCompleted ? 'bg-green-500' : 'bg-blue-400');
+                  return (
+                    <div
+                      key={`bar-${row.kind}-${row.bar.id}`}
+                      className={`absolute rounded cursor-grab ${barColor} ${row.bar.isScheduled ? '' : 'opacity-70'} ${isDragging ? 'cursor-grabbing ring-2 ring-ring' : ''}`}
+                      style={{
+                        left: position.x,
+                        width: Math.max(position.width, 4),
+                        top: position.y - BAR_HEIGHT / 2,
+                        height: BAR_HEIGHT
+                      }}
+                      title={`${row.bar.name}: ${formatDay(previewDates(row.kind, row.bar).start)} – ${formatDay(addCalendarDays(previewDates(row.kind, row.bar).end, -1))}`}
+                      onPointerDown={(e) => handlePointerDown(e, row.kind, row.bar.id, row.phaseId, 'move')}
+                    >
+                      <div
+                        className="absolute right-0 top-0 h-full w-2 cursor-ew-resize rounded-r bg-black/20"
+                        onPointerDown={(e) => handlePointerDown(e, row.kind, row.bar.id, row.phaseId, 'resize')}
+                      />
+                    </div>
+                  );
+                })}
+
+                {/* Milestone markers at phase end */}
+                {rows.filter(row => row.milestone).map(row => {
+                  const position = positions.get(`phase-${row.bar.id}`)!;
+                  return (
+                    <div
+                      key={`milestone-${row.bar.id}`}
+                      className="absolute h-3 w-3 rotate-45 bg-purple-600 border border-white pointer-events-none"
+                      style={{ left: position.x + position.width - 6, top: position.y - 6 }}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mt-3 text-xs">
+          <Badge variant="outline" className="gap-1"><span className="h-2 w-3 rounded bg-primary" /> Phase</Badge>
+          <Badge variant="outline" className="gap-1"><span className="h-2 w-3 rounded bg-purple-500" /> Milestone phase</Badge>
+          <Badge variant="outline" className="gap-1"><span className="h-2 w-3 rounded bg-blue-400" /> Task</Badge>
+          <Badge variant="outline" className="gap-1"><span className="h-2 w-3 rounded bg-green-500" /> Completed task</Badge>
+          <Badge variant="outline">Faded bars have no explicit dates yet</Badge>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,269 @@
+// src/components/mindscope/kanban-board.tsx
+"use client";
+
+import React, { useState } from 'react';
+import type { Project, Microtask, BoardColumn } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Kanban, Settings2, Clock, PlusCircle, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getBoardColumns,
+  getTaskColumn,
+  moveTaskToColumn,
+  validateBoardColumns
+} from '@/lib/services/board';
+import { markUserEdited } from '@/lib/services/phase-regeneration';
+
+interface KanbanBoardProps {
+  project: Project;
+  onUpdateMicrotask: (phaseId: string, updatedMicrotask: Microtask) => void;
+  onUpdateBoardColumns: (columns: BoardColumn[]) => void;
+}
+
+interface DraggedTask {
+  taskId: string;
+  phaseId: string;
+}
+
+export function KanbanBoard({ project, onUpdateMicrotask, onUpdateBoardColumns }: KanbanBoardProps) {
+  const { toast } = useToast();
+  const [showSwimlanes, setShowSwimlanes] = useState(true);
+  const [draggedTask, setDraggedTask] = useState<DraggedTask | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const columns = getBoardColumns(project);
+
+  // Swimlanes are phases; without swimlanes every task shares one lane
+  const lanes = showSwimlanes
+    ? project.phases.map(phase => ({ id: phase.id, name: phase.name, tasks: phase.microtasks.map(task => ({ task, phaseId: phase.id })) }))
+    : [{ id: 'all', name: 'All tasks', tasks: project.phases.flatMap(phase => phase.microtasks.map(task => ({ task, phaseId: phase.id }))) }];
+
+  const handleDrop = (column: BoardColumn) => {
+    setDropTarget(null);
+    if (!draggedTask) return;
+    const phase = project.phases.find(p => p.id === draggedTask.phaseId);
+    const task = phase?.microtasks.find(t => t.id === draggedTask.taskId);
+    setDraggedTask(null);
+    if (!task || getTaskColumn(task, columns).id === column.id) return;
+    onUpdateMicrotask(draggedTask.phaseId, moveTaskToColumn(markUserEdited(task), column));
+  };
+
+  const handleSaveColumns = (updatedColumns: BoardColumn[]) => {
+    const error = validateBoardColumns(updatedColumns);
+    if (error) {
+      toast({ title: "Invalid Columns", description: error, variant: "destructive" });
+      return false;
+    }
+    onUpdateBoardColumns(updatedColumns.map(column => ({ ...column, name: column.name.trim() })));
+    toast({ title: "Board Updated", description: `${updatedColumns.length} columns saved.` });
+    return true;
+  };
+
+  if (project.phases.length === 0) {
+    return (
+      <Card className="text-center">
+        <CardHeader>
+          <CardTitle>No Tasks Yet</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">Add phases and tasks to work with them on the board.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Kanban className="h-5 w-5" />
+              Board
+            </CardTitle>
+            <CardDescription>Drag cards between columns to change their status.</CardDescription>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="board-swimlanes" checked={showSwimlanes} onCheckedChange={setShowSwimlanes} />
+              <Label htmlFor="board-swimlanes" className="text-sm">Swimlanes by phase</Label>
+            </div>
+            <ColumnSettings columns={columns} onSave={handleSaveColumns} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <div className="min-w-max space-y-4">
+          {/* Column headers */}
+          <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(14rem, 1fr))` }}>
+            {columns.map(column => {
+              const count = project.phases
+                .flatMap(phase => phase.microtasks)
+                .filter(task => getTaskColumn(task, columns).id === column.id).length;
+              return (
+                <div key={column.id} className="flex items-center justify-between px-2">
+                  <span className="text-sm font-semibold">{column.name}</span>
+                  <Badge variant={column.isDone ? 'default' : 'secondary'} className="text-xs">{count}</Badge>
+                </div>
+              );
+            })}
+          </div>
+
+          {lanes.map(lane => (
+            <div key={lane.id} className="space-y-2">
+              {showSwimlanes && (
+                <h4 className="text-sm font-medium text-muted-foreground px-2">{lane.name}</h4>
+              )}
+              <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(14rem, 1fr))` }}>
+                {columns.map(column => {
+                  const cellId = `${lane.id}-${column.id}`;
+                  const cellTasks = lane.tasks.filter(({ task }) => getTaskColumn(task, columns).id === column.id);
+                  return (
+                    <div
+                      key={cellId}
+                      className={`min-h-[5rem] rounded-lg border border-dashed p-2 space-y-2 transition-colors ${dropTarget === cellId ? 'bg-primary/10 border-primary' : 'bg-muted/30'}`}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        if (dropTarget !== cellId) setDropTarget(cellId);
+                      }}
+                      onDragLeave={() => setDropTarget(prev => (prev === cellId ? null : prev))}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        handleDrop(column);
+                      }}
+                    >
+                      {cellTasks.map(({ task, phaseId }) => (
+                        <div
+                          key={task.id}
+                          draggable
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move';
+                            setDraggedTask({ taskId: task.id, phaseId });
+                          }}
+                          onDragEnd={() => {
+                            setDraggedTask(null);
+                            setDropTarget(null);
+                          }}
+                          className={`rounded-md border bg-card p-2 shadow-sm cursor-grab active:cursor-grabbing ${draggedTask?.taskId === task.id ? 'opacity-50' : ''}`}
+                        >
+                          <p className={`text-sm ${task.isCompleted ? 'line-through text-muted-foreground' : ''}`}>{task.name}</p>
+                          <div className="flex flex-wrap items-center gap-1 mt-2 text-xs text-muted-foreground">
+                            <span className="flex items-center gap-1">
+                              <Clock className="h-3 w-3" />
+                              {task.estimatedTime}h
+                            </span>
+                            <Badge variant="outline" className="text-xs capitalize">{task.priority}</Badge>
+                            {task.tags.slice(0, 2).map(tag => (
+                              <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ColumnSettingsProps {
+  columns: BoardColumn[];
+  onSave: (columns: BoardColumn[]) => boolean;
+}
+
+function ColumnSettings({ columns, onSave }: ColumnSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draftColumns, setDraftColumns] = useState<BoardColumn[]>(columns);
+
+  const updateColumn = (index: number, changes: Partial<BoardColumn>) => {
+    setDraftColumns(prev => prev.map((column, i) => (i === index ? { ...column, ...changes } : column)));
+  };
+
+  const moveColumn = (index: number, direction: -1 | 1) => {
+    setDraftColumns(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const reordered = [...prev];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  return (
+    <Popover
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (open) setDraftColumns(columns);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings2 className="h-4 w-4 mr-1" /> Columns
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96" align="end">
+        <div className="space-y-3">
+          <p className="text-sm font-medium">Board columns</p>
+          {draftColumns.map((column, index) => (
+            <div key={column.id} className="flex items-center gap-2">
+              <Input
+                value={column.name}
+                onChange={(e) => updateColumn(index, { name: e.target.value })}
+                className="h-8 text-sm"
+              />
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <Checkbox
+                  id={`column-done-${column.id}`}
+                  checked={column.isDone}
+                  onCheckedChange={(checked) => updateColumn(index, { isDone: checked === true })}
+                />
+                <Label htmlFor={`column-done-${column.id}`} className="text-xs">Done</Label>
+              </div>
+              <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => moveColumn(index, -1)} disabled={index === 0}>
+                <ArrowUp className="h-4 w-4" /> <span className="sr-only">Move up</span>
+              </Button>
+              <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => moveColumn(index, 1)} disabled={index === draftColumns.length - 1}>
+                <ArrowDown className="h-4 w-4" /> <span className="sr-only">Move down</span>
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 hover:text-destructive"
+                onClick={() => setDraftColumns(prev => prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" /> <span className="sr-only">Remove column</span>
+              </Button>
+            </div>
+          ))}
+          <div className="flex justify-between pt-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setDraftColumns(prev => [...prev, { id: crypto.randomUUID(), name: 'New column', isDone: false }])}
+            >
+              <PlusCircle className="h-4 w-4 mr-1" /> Add column
+            </Button>
+            <Button size="sm" onClick={() => onSave(draftColumns) && setIsOpen(false)}>
+              Save
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Tasks in a removed column move back to the first open column.
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
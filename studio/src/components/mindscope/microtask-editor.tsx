@@ -0,0 +1,341 @@
+// src/components/mindscope/microtask-editor.tsx
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import type { Microtask, Phase, Subtask, TaskDependency, TaskPriority, TaskComplexity, TimeLogEntry } from '@/lib/types';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Save, XCircle, Clock } from 'lucide-react';
+import { DependencyPicker } from './dependency-picker';
+import { TagInput } from './tag-input';
+import { TimeLogEditor } from './time-log-editor';
+import { AssigneePicker } from './assignee-picker';
+import { SubtaskEditor } from './subtask-editor';
+import { useAuth } from '@/contexts/auth-user-context';
+import { validateTimeLogs, withTimeLogs } from '@/lib/services/time-tracking';
+import { applyThreePointEstimate, calculatePertEstimate, validateThreePointEstimate } from '@/lib/services/pert';
+import { syncSubtaskCompletion, validateSubtasks } from '@/lib/services/subtasks';
+
+interface MicrotaskEditorProps {
+  microtask: Microtask;
+  phases: Phase[]; // all project phases, used for dependencies and tag suggestions
+  team: string[]; // people the task can be assigned to
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (updatedMicrotask: Microtask) => void;
+}
+
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'critical'];
+const COMPLEXITIES: TaskComplexity[] = ['simple', 'moderate', 'complex', 'expert'];
+const THREE_POINT_FIELDS = [
+  { key: 'optimistic', label: 'Optimistic' },
+  { key: 'mostLikely', label: 'Most likely' },
+  { key: 'pessimistic', label: 'Pessimistic' }
+] as const;
+
+type ThreePointInput = Record<typeof THREE_POINT_FIELDS[number]['key'], string>;
+
+const toThreePointInput = (microtask: Microtask): ThreePointInput => ({
+  optimistic: microtask.threePointEstimate?.optimistic.toString() ?? '',
+  mostLikely: microtask.threePointEstimate?.mostLikely.toString() ?? '',
+  pessimistic: microtask.threePointEstimate?.pessimistic.toString() ?? ''
+});
+
+export function MicrotaskEditor({ microtask, phases, team, open, onOpenChange, onSave }: MicrotaskEditorProps) {
+  const { authUser } = useAuth();
+  const [name, setName] = useState(microtask.name);
+  const [description, setDescription] = useState(microtask.description || '');
+  const [estimatedTime, setEstimatedTime] = useState(microtask.estimatedTime?.toString() || '0');
+  const [priority, setPriority] = useState<TaskPriority>(microtask.priority);
+  const [complexity, setComplexity] = useState<TaskComplexity>(microtask.complexity);
+  const [tags, setTags] = useState<string[]>(microtask.tags || []);
+  const [assignees, setAssignees] = useState<string[]>(microtask.assignees || []);
+  const [dependencies, setDependencies] = useState<TaskDependency[]>(microtask.dependencies || []);
+  const [notes, setNotes] = useState(microtask.notes || '');
+  const [timeLogs, setTimeLogs] = useState<TimeLogEntry[]>(microtask.timeLogs || []);
+  const [threePoint, setThreePoint] = useState<ThreePointInput>(toThreePointInput(microtask));
+  const [subtasks, setSubtasks] = useState<Subtask[]>(microtask.subtasks || []);
+
+  // Reset the form from the latest task data when the panel opens. Snapshots arriving while it is
+  // open rebuild the task object, so only the closed-to-open change resets, keeping unsaved input.
+  const wasOpen = useRef(false);
+  useEffect(() => {
+    const opened = open && !wasOpen.current;
+    wasOpen.current = open;
+    if (opened) {
+      setName(microtask.name);
+      setDescription(microtask.description || '');
+      setEstimatedTime(microtask.estimatedTime?.toString() || '0');
+      setPriority(microtask.priority);
+      setComplexity(microtask.complexity);
+      setTags(microtask.tags || []);
+      setAssignees(microtask.assignees || []);
+      setDependencies(microtask.dependencies || []);
+      setNotes(microtask.notes || '');
+      setTimeLogs(microtask.timeLogs || []);
+      setThreePoint(toThreePointInput(microtask));
+      setSubtasks(microtask.subtasks || []);
+    }
+  }, [open, microtask]);
+
+  const projectTags = Array.from(new Set(
+    phases.flatMap(phase => phase.microtasks.flatMap(task => task.tags || []))
+  )).sort();
+
+  const timeLogError = validateTimeLogs(timeLogs);
+  const subtaskError = validateSubtasks(subtasks);
+
+  // The three-point estimate is optional: all three fields empty means a single estimate
+  const hasThreePoint = Object.values(threePoint).some(value => value.trim() !== '');
+  const threePointEstimate = {
+    optimistic: parseFloat(threePoint.optimistic),
+    mostLikely: parseFloat(threePoint.mostLikely),
+    pessimistic: parseFloat(threePoint.pessimistic)
+  };
+  const threePointError = hasThreePoint ? validateThreePointEstimate(threePointEstimate) : null;
+  const pert = hasThreePoint && !threePointError ? calculatePertEstimate(threePointEstimate) : null;
+
+  const handleSave = () => {
+    if (!name.trim() || timeLogError || threePointError || subtaskError) return;
+
+    // Edited sessions recompute actualTime; untracked tasks keep whatever they had
+    const trackedMicrotask = timeLogs.length > 0 || microtask.timeLogs?.length
+      ? withTimeLogs(microtask, timeLogs)
+      : microtask;
+
+    const updatedMicrotask: Microtask = {
+      ...trackedMicrotask,
+      name: name.trim(),
+      description: description.trim(),
+      estimatedTime: parseFloat(estimatedTime) || 0,
+      priority,
+      complexity,
+      tags,
+      dependencies,
+    };
+
+    // Firebase rejects undefined, so drop empty notes, assignees and subtasks instead of storing them
+    if (notes.trim()) {
+      updatedMicrotask.notes = notes;
+    } else {
+      delete updatedMicrotask.notes;
+    }
+    if (assignees.length > 0) {
+      updatedMicrotask.assignees = assignees;
+    } else {
+      delete updatedMicrotask.assignees;
+    }
+    if (subtasks.length > 0) {
+      updatedMicrotask.subtasks = subtasks.map(subtask => ({ ...subtask, name: subtask.name.trim() }));
+    } else {
+      delete updatedMicrotask.subtasks;
+    }
+
+    // A three-point estimate replaces the single estimate with its expected value
+    if (!hasThreePoint) {
+      delete updatedMicrotask.threePointEstimate;
+    }
+
+    const estimatedMicrotask = hasThreePoint ? applyThreePointEstimate(updatedMicrotask, threePointEstimate) : updatedMicrotask;
+    // Hours typed by hand replace the AI's, so the calibrated label no longer applies
+    const pointsOf = (task: Microtask) => {
+      const points = task.threePointEstimate;
+      return points ? [points.optimistic, points.mostLikely, points.pessimistic].join('/') : '';
+    };
+    const estimateChanged = estimatedMicrotask.estimatedTime !== microtask.estimatedTime
+      || pointsOf(estimatedMicrotask) !== pointsOf(microtask);
+    if (estimateChanged) {
+      delete estimatedMicrotask.rawEstimatedTime;
+    }
+    // Only edited subtasks move the task's completion; an untouched checklist leaves it as it was
+    const subtasksChanged = JSON.stringify(subtasks) !== JSON.stringify(microtask.subtasks || []);
+    const savedMicrotask = subtasksChanged ? syncSubtaskCompletion(estimatedMicrotask) : estimatedMicrotask;
+    // Any real edit makes the task the team's own, so regenerating the phase with AI keeps it
+    const withoutOrigin = (task: Microtask) => JSON.stringify({ ...task, aiGenerated: undefined });
+    if (withoutOrigin(savedMicrotask) !== withoutOrigin(microtask)) {
+      delete savedMicrotask.aiGenerated;
+    }
+    onSave(savedMicrotask);
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Edit Microtask</SheetTitle>
+          <SheetDescription>Update every detail of this task, including planning data and notes.</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-1">
+            <Label htmlFor={`name-${microtask.id}`}>Name</Label>
+            <Input id={`name-${microtask.id}`} value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor={`description-${microtask.id}`}>Description</Label>
+            <Textarea
+              id={`description-${microtask.id}`}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor={`time-${microtask.id}`}>Estimate (hours)</Label>
+              <div className="flex items-center space-x-2">
+                <Clock className="h-4 w-4 text-muted-foreground" />
+                <Input
+                  id={`time-${microtask.id}`}
+                  type="number"
+                  value={pert ? pert.expected.toFixed(2) : estimatedTime}
+                  onChange={(e) => setEstimatedTime(e.target.value)}
+                  min="0"
+                  step="0.25"
+                  disabled={hasThreePoint}
+                />
+              </div>
+              {microtask.rawEstimatedTime !== undefined && (
+                <p className="text-xs text-muted-foreground">AI estimate: {microtask.rawEstimatedTime}h before calibration</p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label>Priority</Label>
+              <Select value={priority} onValueChange={(value) => setPriority(value as TaskPriority)}>
+                <SelectTrigger className="capitalize"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {PRIORITIES.map(p => (
+                    <SelectItem key={p} value={p} className="capitalize">{p}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Complexity</Label>
+              <Select value={complexity} onValueChange={(value) => setComplexity(value as TaskComplexity)}>
+                <SelectTrigger className="capitalize"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {COMPLEXITIES.map(c => (
+                    <SelectItem key={c} value={c} className="capitalize">{c}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Three-point estimate (hours)</Label>
+            <div className="grid grid-cols-3 gap-3">
+              {THREE_POINT_FIELDS.map(({ key, label }) => (
+                <Input
+                  key={key}
+                  type="number"
+                  value={threePoint[key]}
+                  onChange={(e) => setThreePoint({ ...threePoint, [key]: e.target.value })}
+                  placeholder={label}
+                  aria-label={`${label} hours`}
+                  min="0"
+                  step="0.25"
+                />
+              ))}
+            </div>
+            {threePointError ? (
+              <p className="text-xs text-destructive">{threePointError}</p>
+            ) : pert ? (
+              <p className="text-xs text-muted-foreground">
+                Expected {pert.expected.toFixed(1)}h ± {pert.standardDeviation.toFixed(1)}h; the estimate follows this value.
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground">Optional. Fill all three to capture how uncertain the estimate is.</p>
+            )}
+          </div>
+
+          <SubtaskEditor
+            value={subtasks}
+            onChange={setSubtasks}
+            onUseTotal={hasThreePoint ? undefined : (hours) => setEstimatedTime(hours.toString())}
+          />
+
+          <AssigneePicker team={team} value={assignees} onChange={setAssignees} />
+
+          <div className="space-y-1">
+            <Label>Tags</Label>
+            <TagInput value={tags} onChange={setTags} suggestions={projectTags} />
+          </div>
+
+          <DependencyPicker
+            microtaskId={microtask.id}
+            phases={phases}
+            dependencies={dependencies}
+            onChange={setDependencies}
+          />
+
+          <TimeLogEditor
+            value={timeLogs}
+            onChange={setTimeLogs}
+            currentUser={authUser ? (authUser.displayName || authUser.email || authUser.uid) : undefined}
+          />
+
+          <div className="space-y-1">
+            <Label>Notes</Label>
+            <Tabs defaultValue="write">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="write">Write</TabsTrigger>
+                <TabsTrigger value="preview">Preview</TabsTrigger>
+              </TabsList>
+              <TabsContent value="write">
+                <Textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={8}
+                  placeholder="Markdown supported: **bold**, lists, `code`, links..."
+                  className="font-mono text-sm"
+                />
+              </TabsContent>
+              <TabsContent value="preview">
+                <div className="min-h-[10rem] rounded-md border p-3 text-sm space-y-2 [&_h1]:text-lg [&_h1]:font-semibold [&_h2]:font-semibold [&_h3]:font-medium [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_a]:text-primary [&_a]:underline [&_code]:bg-muted [&_code]:px-1 [&_code]:rounded [&_pre]:bg-muted [&_pre]:p-2 [&_pre]:rounded [&_pre]:overflow-x-auto">
+                  {notes.trim() ? (
+                    <ReactMarkdown>{notes}</ReactMarkdown>
+                  ) : (
+                    <p className="text-muted-foreground">Nothing to preview.</p>
+                  )}
+                </div>
+              </TabsContent>
+            </Tabs>
+          </div>
+        </div>
+
+        <SheetFooter className="gap-2">
+          <Button onClick={() => onOpenChange(false)} variant="ghost" className="text-muted-foreground">
+            <XCircle className="h-4 w-4 mr-1" /> Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim() || Boolean(timeLogError) || Boolean(threePointError) || Boolean(subtaskError)}>
+            <Save className="h-4 w-4 mr-1" /> Save
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
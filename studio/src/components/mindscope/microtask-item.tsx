@@ -1,49 +1,59 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from 'react';
-import type { Microtask } from '@/lib/types';
-import { Input } from '@/components/ui/input';
+import React, { useEffect, useState } from 'react';
+import type { Microtask, Phase, Subtask } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Trash2, Edit3, Save, XCircle, Clock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Trash2, Edit3, Clock, Lock, StickyNote, Play, Square, Timer, User, ListChecks, Wand2, Loader2 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
-import { Label } from '@/components/ui/label';
+import { MicrotaskEditor } from './microtask-editor';
+import { TaskBreakdownDialog } from './task-breakdown-dialog';
+import { getBlockingTasks } from '@/lib/services/progress-tracker';
+import { applyTaskCompletion } from '@/lib/services/board';
+import { formatDuration, getLoggedHours, getRunningTimeLog, startTimer, stopTimer } from '@/lib/services/time-tracking';
+import { getTaskPertEstimate } from '@/lib/services/pert';
+import { countSubtasks, setSubtaskCompletion, syncSubtaskCompletion } from '@/lib/services/subtasks';
+import { markUserEdited } from '@/lib/services/phase-regeneration';
+import { useAuth } from '@/contexts/auth-user-context';
 
 interface MicrotaskItemProps {
   microtask: Microtask;
+  phases: Phase[]; // all project phases, used to resolve dependencies
+  team: string[];
   onUpdateMicrotask: (updatedMicrotask: Microtask) => void;
   onDeleteMicrotask: (microtaskId: string) => void;
+  onBreakDownMicrotask?: (microtask: Microtask) => Promise<Subtask[] | null>; // AI proposal, null when it failed
 }
 
-export function MicrotaskItem({ microtask, onUpdateMicrotask, onDeleteMicrotask }: MicrotaskItemProps) {
-  const [isEditing, setIsEditing] = useState(false);
-  const [editableName, setEditableName] = useState(microtask.name);
-  const [editableTime, setEditableTime] = useState(
-    microtask.estimatedTime?.toString() || '0'
-  );
+const PRIORITY_BADGE_CLASSES: Record<Microtask['priority'], string> = {
+  low: 'text-gray-600 border-gray-300',
+  medium: 'text-blue-600 border-blue-300',
+  high: 'text-orange-600 border-orange-300',
+  critical: 'text-red-600 border-red-300'
+};
+
+export function MicrotaskItem({ microtask, phases, team, onUpdateMicrotask, onDeleteMicrotask, onBreakDownMicrotask }: MicrotaskItemProps) {
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [isBreakingDown, setIsBreakingDown] = useState(false);
+  const [breakdownProposal, setBreakdownProposal] = useState<Subtask[] | null>(null);
+  const { authUser } = useAuth();
+  const runningTimeLog = getRunningTimeLog(microtask);
+  const [now, setNow] = useState(Date.now());
 
+  // Tick once a second while the timer runs; the start time itself is persisted on the task
   useEffect(() => {
-    if (!isEditing) {
-      setEditableName(microtask.name);
-      setEditableTime(microtask.estimatedTime?.toString() || '0');
-    }
-  }, [microtask, isEditing]);
-
-  const handleSave = () => {
-    const newEstimatedTime = parseFloat(editableTime) || 0;
-    onUpdateMicrotask({
-      ...microtask,
-      name: editableName,
-      estimatedTime: newEstimatedTime,
-    });
-    setIsEditing(false);
-  };
+    if (!runningTimeLog) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [runningTimeLog?.id]);
 
-  const handleCancelEdit = () => {
-    setEditableName(microtask.name);
-    setEditableTime(microtask.estimatedTime?.toString() || '0');
-    setIsEditing(false);
-  };
+  const loggedHours = getLoggedHours(microtask, now);
+  const subtaskCount = countSubtasks(microtask.subtasks);
+
+  // Same rule as getProjectStats().blockedTasks
+  const blockingTasks = getBlockingTasks(microtask, phases.flatMap(phase => phase.microtasks));
 
   const handleToggleComplete = (checked: boolean | string) => {
     const isCompleted = checked === true;
@@ -54,32 +64,36 @@ export function MicrotaskItem({ microtask, onUpdateMicrotask, onDeleteMicrotask
       to: isCompleted
     });
     
-    // Create updated microtask object
-    const updatedMicrotask = {
-      ...microtask,
-      isCompleted,
-      completedAt: isCompleted ? Date.now() : undefined,
-      // Set actualTime to estimatedTime if not already set when completing task
-      actualTime: isCompleted 
-        ? (microtask.actualTime || microtask.estimatedTime) 
-        : microtask.actualTime
-    };
-    
-    // Remove completedAt and actualTime if task is being marked as incomplete
-    if (!isCompleted) {
-      if (updatedMicrotask.completedAt !== undefined) {
-        delete updatedMicrotask.completedAt;
-      }
-      // Only remove actualTime if it was set to estimatedTime (no manual tracking)
-      if (microtask.actualTime === undefined || microtask.actualTime === microtask.estimatedTime) {
-        delete updatedMicrotask.actualTime;
-      }
-    }
+    const updatedMicrotask = applyTaskCompletion(microtask, isCompleted);
     
     // Immediately call the update function without any delays
     onUpdateMicrotask(updatedMicrotask);
   };
 
+  const handleBreakDown = async () => {
+    if (!onBreakDownMicrotask) return;
+    setIsBreakingDown(true);
+    try {
+      setBreakdownProposal(await onBreakDownMicrotask(microtask));
+    } finally {
+      setIsBreakingDown(false);
+    }
+  };
+
+  const handleAcceptBreakdown = (subtasks: Subtask[], estimatedTime?: number) => {
+    setBreakdownProposal(null);
+    onUpdateMicrotask(syncSubtaskCompletion({
+      ...markUserEdited(microtask),
+      subtasks,
+      ...(estimatedTime !== undefined && { estimatedTime })
+    }));
+  };
+
+  const handleToggleTimer = () => {
+    const user = authUser ? (authUser.displayName || authUser.email || authUser.uid) : undefined;
+    onUpdateMicrotask(runningTimeLog ? stopTimer(microtask) : startTimer(microtask, user));
+  };
+
   return (
     <Card className={`mb-2 transition-all duration-200 ${microtask.isCompleted ? 'bg-muted/50 opacity-70' : 'bg-card'}`}>
       <CardContent className="p-3">
@@ -91,78 +105,160 @@ export function MicrotaskItem({ microtask, onUpdateMicrotask, onDeleteMicrotask
             aria-label={`Mark task ${microtask.name} as ${microtask.isCompleted ? 'incomplete' : 'complete'}`}
             className="transform scale-110"
           />
-          {isEditing ? (
-            <Input
-              value={editableName}
-              onChange={(e) => setEditableName(e.target.value)}
-              className="flex-grow h-8 text-sm"
-              aria-label="Edit task name"
-            />
-          ) : (
-            <label
-              htmlFor={`task-${microtask.id}`}
-              className={`flex-grow cursor-pointer text-sm ${microtask.isCompleted ? 'line-through text-muted-foreground' : 'text-foreground'}`}
+          <label
+            htmlFor={`task-${microtask.id}`}
+            className={`flex-grow cursor-pointer text-sm ${microtask.isCompleted ? 'line-through text-muted-foreground' : 'text-foreground'}`}
+          >
+            {microtask.name}
+          </label>
+          {blockingTasks.length > 0 && (
+            <Badge
+              variant="outline"
+              className="text-xs text-orange-600 border-orange-300 flex-shrink-0"
+              title={`Blocked by: ${blockingTasks.map(task => task.name).join(', ')}`}
             >
-              {microtask.name}
-            </label>
+              <Lock className="h-3 w-3 mr-1" />
+              Blocked by {blockingTasks.length === 1 ? blockingTasks[0].name : `${blockingTasks.length} tasks`}
+            </Badge>
           )}
         </div>
 
-        {isEditing ? (
-          <div className="mt-3 space-y-3">
-            <div>
-              <Label htmlFor={`time-${microtask.id}`} className="text-xs text-muted-foreground mb-1 block">Estimated Time (hours)</Label>
-              <div className="flex items-center space-x-2">
-                <Clock className="h-4 w-4 text-muted-foreground" />
-                <Input
-                  id={`time-${microtask.id}`}
-                  type="number"
-                  value={editableTime}
-                  onChange={(e) => setEditableTime(e.target.value)}
-                  placeholder="Hours"
-                  className="w-24 h-8 text-sm"
-                  aria-label="Edit estimated time"
-                  min="0"
-                  step="0.25"
+        {microtask.description && (
+          <p className="mt-1 ml-8 text-xs text-muted-foreground line-clamp-2">{microtask.description}</p>
+        )}
+
+        {microtask.subtasks && microtask.subtasks.length > 0 && (
+          <div className="mt-2 ml-8 space-y-1">
+            {microtask.subtasks.map(subtask => (
+              <div key={subtask.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`subtask-${subtask.id}`}
+                  checked={subtask.isCompleted}
+                  onCheckedChange={(checked) => onUpdateMicrotask(setSubtaskCompletion(markUserEdited(microtask), subtask.id, checked === true))}
+                  aria-label={`Mark subtask ${subtask.name} as ${subtask.isCompleted ? 'incomplete' : 'complete'}`}
+                  className="h-3.5 w-3.5"
                 />
+                <label
+                  htmlFor={`subtask-${subtask.id}`}
+                  className={`flex-grow cursor-pointer text-xs ${subtask.isCompleted ? 'line-through text-muted-foreground' : 'text-foreground'}`}
+                >
+                  {subtask.name}
+                </label>
+                {subtask.estimatedTime !== undefined && (
+                  <span className="text-xs text-muted-foreground">{subtask.estimatedTime}h</span>
+                )}
               </div>
-            </div>
-            <div className="flex justify-end space-x-2 pt-2">
-              <Button onClick={handleSave} size="sm" variant="ghost" className="text-green-600 hover:text-green-700 hover:bg-green-100">
-                <Save className="h-4 w-4 mr-1" /> Save
-              </Button>
-              <Button onClick={handleCancelEdit} size="sm" variant="ghost" className="text-muted-foreground hover:text-foreground hover:bg-muted">
-                <XCircle className="h-4 w-4 mr-1" /> Cancel
-              </Button>
-            </div>
+            ))}
           </div>
-        ) : (
-          <div className="mt-1 flex justify-between items-center">
-            <div className="flex items-center space-x-3 text-xs text-muted-foreground">
-              <div className="flex items-center space-x-1">
-                <Clock className="h-3 w-3" />
-                <span>{microtask.estimatedTime} hr(s)</span>
-              </div>
-              {microtask.isCompleted && microtask.completedAt && (
-                <div className="flex items-center space-x-1 text-green-600">
-                  <span>✓</span>
-                  <span>Completed {new Date(microtask.completedAt).toLocaleDateString()}</span>
-                </div>
+        )}
+
+        <div className="mt-1 flex justify-between items-center">
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+            <div className="flex items-center space-x-1">
+              <Clock className="h-3 w-3" />
+              <span>{microtask.estimatedTime} hr(s)</span>
+              {microtask.threePointEstimate && (
+                <span
+                  title={`Optimistic ${microtask.threePointEstimate.optimistic}h · most likely ${microtask.threePointEstimate.mostLikely}h · pessimistic ${microtask.threePointEstimate.pessimistic}h`}
+                >
+                  ± {getTaskPertEstimate(microtask).standardDeviation.toFixed(1)}
+                </span>
+              )}
+              {microtask.rawEstimatedTime !== undefined && microtask.rawEstimatedTime !== microtask.estimatedTime && (
+                <span title="AI estimate before calibration to your team's tracked history">
+                  (AI: {microtask.rawEstimatedTime}h, calibrated)
+                </span>
               )}
             </div>
-            <div className="flex items-center space-x-1">
-              <Button onClick={() => setIsEditing(true)} size="icon" variant="ghost" className="h-7 w-7 text-muted-foreground hover:text-primary">
-                <Edit3 className="h-4 w-4" />
-                <span className="sr-only">Edit Task</span>
+            {subtaskCount.total > 0 && (
+              <div className="flex items-center space-x-1">
+                <ListChecks className="h-3 w-3" />
+                <span>{subtaskCount.completed}/{subtaskCount.total}</span>
+              </div>
+            )}
+            {loggedHours > 0 && (
+              <div className={`flex items-center space-x-1 ${runningTimeLog ? 'text-primary font-medium' : ''}`}>
+                <Timer className="h-3 w-3" />
+                <span>{formatDuration(loggedHours)} logged</span>
+              </div>
+            )}
+            {microtask.assignees && microtask.assignees.length > 0 && (
+              <div className="flex items-center space-x-1">
+                <User className="h-3 w-3" />
+                <span>{microtask.assignees.join(', ')}</span>
+              </div>
+            )}
+            <Badge variant="outline" className={`text-xs capitalize ${PRIORITY_BADGE_CLASSES[microtask.priority]}`}>
+              {microtask.priority}
+            </Badge>
+            <Badge variant="outline" className="text-xs capitalize">
+              {microtask.complexity}
+            </Badge>
+            {microtask.tags.map(tag => (
+              <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+            ))}
+            {microtask.notes && (
+              <StickyNote className="h-3 w-3" aria-label="Has notes" />
+            )}
+            {microtask.isCompleted && microtask.completedAt && (
+              <div className="flex items-center space-x-1 text-green-600">
+                <span>✓</span>
+                <span>Completed {new Date(microtask.completedAt).toLocaleDateString()}</span>
+              </div>
+            )}
+          </div>
+          <div className="flex items-center space-x-1">
+            {!microtask.isCompleted && (
+              <Button
+                onClick={handleToggleTimer}
+                size="icon"
+                variant="ghost"
+                className={`h-7 w-7 ${runningTimeLog ? 'text-primary' : 'text-muted-foreground hover:text-primary'}`}
+              >
+                {runningTimeLog ? <Square className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                <span className="sr-only">{runningTimeLog ? 'Stop timer' : 'Start timer'}</span>
               </Button>
-              <Button onClick={() => onDeleteMicrotask(microtask.id)} size="icon" variant="ghost" className="h-7 w-7 text-muted-foreground hover:text-destructive">
-                <Trash2 className="h-4 w-4" />
-                <span className="sr-only">Delete Task</span>
+            )}
+            {onBreakDownMicrotask && !microtask.isCompleted && (
+              <Button
+                onClick={handleBreakDown}
+                disabled={isBreakingDown}
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 text-muted-foreground hover:text-primary"
+                title="Break this task down with AI"
+              >
+                {isBreakingDown ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wand2 className="h-4 w-4" />}
+                <span className="sr-only">Break this task down</span>
               </Button>
-            </div>
+            )}
+            <Button onClick={() => setIsEditorOpen(true)} size="icon" variant="ghost" className="h-7 w-7 text-muted-foreground hover:text-primary">
+              <Edit3 className="h-4 w-4" />
+              <span className="sr-only">Edit Task</span>
+            </Button>
+            <Button onClick={() => onDeleteMicrotask(microtask.id)} size="icon" variant="ghost" className="h-7 w-7 text-muted-foreground hover:text-destructive">
+              <Trash2 className="h-4 w-4" />
+              <span className="sr-only">Delete Task</span>
+            </Button>
           </div>
-        )}
+        </div>
+
+        <MicrotaskEditor
+          microtask={microtask}
+          phases={phases}
+          team={team}
+          open={isEditorOpen}
+          onOpenChange={setIsEditorOpen}
+          onSave={onUpdateMicrotask}
+        />
+
+        <TaskBreakdownDialog
+          microtask={microtask}
+          proposal={breakdownProposal}
+          onAccept={handleAcceptBreakdown}
+          onDiscard={() => setBreakdownProposal(null)}
+        />
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
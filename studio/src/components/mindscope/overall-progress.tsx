@@ -5,6 +5,7 @@ import type { Project } from '@/lib/types';
 import { Progress } from '@/components/ui/progress';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { CheckCircle2, ListChecks } from 'lucide-react';
+import { calculateProjectProgress } from '@/lib/services/progress-tracker';
 
 interface OverallProgressProps {
   project: Project;
@@ -43,7 +44,8 @@ export function OverallProgress({ project }: OverallProgressProps) {
     { totalMicrotasks: 0, completedMicrotasks: 0 }
   );
 
-  const overallProgressPercentage = totalMicrotasks > 0 ? (completedMicrotasks / totalMicrotasks) * 100 : 0;
+  // Partly done subtasks count towards the percentage, not the completed count
+  const overallProgressPercentage = calculateProjectProgress(project);
 
   return (
     <Card className="w-full shadow-lg my-6">
@@ -0,0 +1,125 @@
+// src/components/mindscope/phase-diff-dialog.tsx
+"use client";
+
+import React from 'react';
+import type { Microtask } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Wand2, Plus, Minus, Pencil } from 'lucide-react';
+import { hasPhaseChanges, type PhaseDiff, type PhaseTaskChange } from '@/lib/services/phase-regeneration';
+
+interface PhaseDiffDialogProps {
+  phaseName: string;
+  diff: PhaseDiff | null; // open while a proposal is waiting for review
+  onApply: (diff: PhaseDiff) => void;
+  onCancel: () => void;
+}
+
+const describeChanges = ({ before, after }: PhaseTaskChange): string[] => {
+  const changes: string[] = [];
+  if (before.estimatedTime !== after.estimatedTime) changes.push(`${before.estimatedTime}h → ${after.estimatedTime}h`);
+  if (before.priority !== after.priority) changes.push(`${before.priority} → ${after.priority} priority`);
+  if (before.complexity !== after.complexity) changes.push(`${before.complexity} → ${after.complexity}`);
+  if (before.description !== after.description) changes.push('new description');
+  if (before.tags.join(',') !== after.tags.join(',')) changes.push('new tags');
+  return changes;
+};
+
+function TaskLine({ task, className }: { task: Microtask; className?: string }) {
+  return (
+    <div className="min-w-0 flex-grow">
+      <p className={`text-sm truncate ${className || ''}`}>{task.name}</p>
+      {task.description && <p className="text-xs text-muted-foreground line-clamp-1">{task.description}</p>}
+    </div>
+  );
+}
+
+export function PhaseDiffDialog({ phaseName, diff, onApply, onCancel }: PhaseDiffDialogProps) {
+  const hasChanges = diff ? hasPhaseChanges(diff) : false;
+
+  return (
+    <Dialog open={diff !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5 text-primary" />
+            {diff?.mode === 'extend' ? 'Add Missing Tasks' : 'Regenerate Phase'}: {phaseName}
+          </DialogTitle>
+          <DialogDescription>
+            Completed, started and hand-edited tasks are always kept. Review the changes before applying them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {diff && (
+          <div className="space-y-4 max-h-[55vh] overflow-y-auto pr-1">
+            {!hasChanges && (
+              <p className="text-sm text-muted-foreground">The AI proposed nothing new for this phase.</p>
+            )}
+
+            {diff.added.length > 0 && (
+              <div className="space-y-1">
+                <h4 className="text-sm font-semibold text-green-700">Added ({diff.added.length})</h4>
+                {diff.added.map(task => (
+                  <div key={task.id} className="flex items-start gap-2 p-2 rounded-md bg-green-50">
+                    <Plus className="h-4 w-4 mt-0.5 text-green-700 flex-shrink-0" />
+                    <TaskLine task={task} />
+                    <Badge variant="outline" className="text-xs flex-shrink-0">{task.estimatedTime}h</Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {diff.changed.length > 0 && (
+              <div className="space-y-1">
+                <h4 className="text-sm font-semibold text-blue-700">Changed ({diff.changed.length})</h4>
+                {diff.changed.map(change => (
+                  <div key={change.before.id} className="flex items-start gap-2 p-2 rounded-md bg-blue-50">
+                    <Pencil className="h-4 w-4 mt-0.5 text-blue-700 flex-shrink-0" />
+                    <TaskLine task={change.after} />
+                    <div className="flex flex-wrap justify-end gap-1 flex-shrink-0">
+                      {describeChanges(change).map(label => (
+                        <Badge key={label} variant="outline" className="text-xs">{label}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {diff.removed.length > 0 && (
+              <div className="space-y-1">
+                <h4 className="text-sm font-semibold text-red-700">Removed ({diff.removed.length})</h4>
+                {diff.removed.map(task => (
+                  <div key={task.id} className="flex items-start gap-2 p-2 rounded-md bg-red-50">
+                    <Minus className="h-4 w-4 mt-0.5 text-red-700 flex-shrink-0" />
+                    <TaskLine task={task} className="line-through" />
+                    <Badge variant="outline" className="text-xs flex-shrink-0">{task.estimatedTime}h</Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {diff.kept.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {diff.kept.length} task{diff.kept.length === 1 ? '' : 's'} stay as they are.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => diff && onApply(diff)} disabled={!hasChanges}>Apply Changes</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,34 +2,59 @@
 "use client";
 
 import React, { useState, useEffect, useCallback } from 'react';
-import type { Phase, Microtask } from '@/lib/types';
+import type { Phase, Microtask, Subtask } from '@/lib/types';
 import { MicrotaskItem } from './microtask-item';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import { AccordionContent, AccordionItem, AccordionHeader, AccordionTrigger } from '@/components/ui/accordion';
-import { PlusCircle, Trash2, Edit3, Save, XCircle, Folder } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { PlusCircle, Trash2, Edit3, Save, XCircle, Folder, Clock, Wand2, Loader2, RefreshCw, ListPlus } from 'lucide-react';
+import { PhaseDiffDialog } from './phase-diff-dialog';
+import { summarizePert } from '@/lib/services/pert';
+import { calculatePhaseProgress } from '@/lib/services/progress-tracker';
+import { ALL_ASSIGNEES, matchesAssigneeFilter } from '@/lib/services/assignees';
+import type { PhaseDiff, PhaseGenerationMode } from '@/lib/services/phase-regeneration';
 
 interface PhaseItemProps {
   phase: Phase;
+  allPhases: Phase[];
+  team: string[];
+  assigneeFilter: string; // only tasks matching this TaskList person filter are listed
   onUpdatePhase: (updatedPhase: Phase) => void;
   onDeletePhase: (phaseId: string) => void;
   onAddMicrotask: (phaseId: string, microtaskName: string) => void;
   onUpdateMicrotask: (phaseId: string, updatedMicrotask: Microtask) => void;
   onDeleteMicrotask: (phaseId: string, microtaskId: string) => void;
+  onBreakDownMicrotask?: (phaseId: string, microtask: Microtask) => Promise<Subtask[] | null>;
+  onGeneratePhaseTasks?: (phaseId: string, mode: PhaseGenerationMode) => Promise<PhaseDiff | null>;
+  onApplyPhaseDiff?: (diff: PhaseDiff) => void;
 }
 
 export function PhaseItem({
   phase,
+  allPhases,
+  team,
+  assigneeFilter,
   onUpdatePhase,
   onDeletePhase,
   onAddMicrotask,
   onUpdateMicrotask,
   onDeleteMicrotask,
+  onBreakDownMicrotask,
+  onGeneratePhaseTasks,
+  onApplyPhaseDiff,
 }: PhaseItemProps) {
   const [isEditingName, setIsEditingName] = useState(false);
   const [editablePhaseName, setEditablePhaseName] = useState(phase.name);
   const [newMicrotaskName, setNewMicrotaskName] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [proposedDiff, setProposedDiff] = useState<PhaseDiff | null>(null);
 
   useEffect(() => {
     setEditablePhaseName(phase.name);
@@ -45,6 +70,25 @@ export function PhaseItem({
     onDeleteMicrotask(phase.id, microtaskId);
   }, [phase.id, onDeleteMicrotask]);
 
+  const handleBreakDownMicrotask = useCallback((microtask: Microtask) => {
+    return onBreakDownMicrotask ? onBreakDownMicrotask(phase.id, microtask) : Promise.resolve(null);
+  }, [phase.id, onBreakDownMicrotask]);
+
+  const handleGenerate = async (mode: PhaseGenerationMode) => {
+    if (!onGeneratePhaseTasks) return;
+    setIsGenerating(true);
+    try {
+      setProposedDiff(await onGeneratePhaseTasks(phase.id, mode));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleApplyDiff = (diff: PhaseDiff) => {
+    onApplyPhaseDiff?.(diff);
+    setProposedDiff(null);
+  };
+
   const handleSavePhaseName = () => {
     if (editablePhaseName.trim() === '') {
         // Optionally, add a toast notification for empty phase name
@@ -70,10 +114,13 @@ export function PhaseItem({
 
   const phaseProgress = (() => {
     if (!phase.microtasks || !Array.isArray(phase.microtasks) || phase.microtasks.length === 0) return 0;
-    const completedCount = phase.microtasks.filter(mt => mt.isCompleted).length;
-    return (completedCount / phase.microtasks.length) * 100;
+    return calculatePhaseProgress(phase);
   })();
 
+  const phaseEstimate = summarizePert(phase.microtasks || []);
+  const visibleMicrotasks = (phase.microtasks || []).filter(task => matchesAssigneeFilter(task, assigneeFilter));
+  const isFiltered = assigneeFilter !== ALL_ASSIGNEES;
+
   return (
     <AccordionItem value={phase.id} className="mb-4 bg-card shadow-md rounded-lg overflow-hidden border border-border">
       <AccordionHeader className="flex flex-col px-4 py-3 group">
@@ -106,6 +153,16 @@ export function PhaseItem({
           </AccordionTrigger>
 
           <div className="flex items-center space-x-1 shrink-0 ml-2">
+            {phaseEstimate.expectedHours > 0 && (
+              <span
+                className="flex items-center text-xs text-muted-foreground mr-1"
+                title="PERT expected hours ± one standard deviation"
+              >
+                <Clock className="h-3 w-3 mr-1" />
+                {phaseEstimate.expectedHours}h
+                {phaseEstimate.standardDeviation > 0 && ` ± ${phaseEstimate.standardDeviation}h`}
+              </span>
+            )}
             {isEditingName ? (
               <>
                 <Button onClick={(e) => { e.stopPropagation(); handleSavePhaseName(); }} size="icon" variant="ghost" className="h-7 w-7 text-green-600 hover:text-green-700 hover:bg-green-100">
@@ -120,6 +177,24 @@ export function PhaseItem({
                 <Edit3 className="h-4 w-4" /> <span className="sr-only">Edit Name</span>
               </Button>
             )}
+            {onGeneratePhaseTasks && onApplyPhaseDiff && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button onClick={(e) => e.stopPropagation()} size="icon" variant="ghost" className="h-7 w-7 text-muted-foreground hover:text-primary" disabled={isGenerating}>
+                    {isGenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wand2 className="h-4 w-4" />}
+                    <span className="sr-only">Generate Phase Tasks with AI</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                  <DropdownMenuItem onSelect={() => handleGenerate('extend')}>
+                    <ListPlus className="h-4 w-4 mr-2" /> Add Missing Tasks
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => handleGenerate('regenerate')}>
+                    <RefreshCw className="h-4 w-4 mr-2" /> Regenerate Untouched Tasks
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
             <Button onClick={(e) => { e.stopPropagation(); onDeletePhase(phase.id); }} size="icon" variant="ghost" className="h-7 w-7 text-muted-foreground hover:text-destructive">
               <Trash2 className="h-4 w-4" /> <span className="sr-only">Delete Phase</span>
             </Button>
@@ -132,20 +207,27 @@ export function PhaseItem({
         {/* Microtasks Container */}
         <div className="bg-background/60 rounded-lg border border-border/50 p-4 mb-4">
           <div className="flex items-center mb-3">
-            <span className="text-sm font-medium text-muted-foreground">Microtasks ({phase.microtasks?.length || 0})</span>
+            <span className="text-sm font-medium text-muted-foreground">
+              Microtasks ({isFiltered ? `${visibleMicrotasks.length} of ${phase.microtasks?.length || 0}` : phase.microtasks?.length || 0})
+            </span>
           </div>
           <div className="space-y-3">
-            {phase.microtasks && Array.isArray(phase.microtasks) && phase.microtasks.map(microtask => (
+            {visibleMicrotasks.map(microtask => (
               <MicrotaskItem
                 key={microtask.id}
                 microtask={microtask}
+                phases={allPhases}
+                team={team}
                 onUpdateMicrotask={handleUpdateMicrotask}
                 onDeleteMicrotask={handleDeleteMicrotask}
+                onBreakDownMicrotask={onBreakDownMicrotask ? handleBreakDownMicrotask : undefined}
               />
             ))}
-            {(!phase.microtasks || !Array.isArray(phase.microtasks) || phase.microtasks.length === 0) && (
+            {visibleMicrotasks.length === 0 && (
               <div className="text-center py-6">
-                <p className="text-sm text-muted-foreground">No microtasks yet. Add one below!</p>
+                <p className="text-sm text-muted-foreground">
+                  {isFiltered && phase.microtasks?.length ? 'No microtasks match the person filter.' : 'No microtasks yet. Add one below!'}
+                </p>
               </div>
             )}
           </div>
@@ -170,6 +252,13 @@ export function PhaseItem({
           </div>
         </div>
       </AccordionContent>
+
+      <PhaseDiffDialog
+        phaseName={phase.name}
+        diff={proposedDiff}
+        onApply={handleApplyDiff}
+        onCancel={() => setProposedDiff(null)}
+      />
     </AccordionItem>
   );
 }
\ No newline at end of file
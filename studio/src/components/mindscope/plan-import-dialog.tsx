@@ -0,0 +1,121 @@
+// src/components/mindscope/plan-import-dialog.tsx
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ClipboardPaste, CheckCircle2 } from 'lucide-react';
+import { parsePlan, type ParsedPhase } from '@/lib/ai-parser';
+import { summarizeParsedPlan } from '@/lib/services/plan-import';
+
+interface PlanImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (parsed: ParsedPhase[]) => void;
+}
+
+const PLACEHOLDER = `## Setup
+- [x] Create repository (1h)
+- [ ] Configure CI (2-4h, high priority) #devops
+  - [ ] Add lint step
+
+## Authentication
+1. Login page (4h) #auth
+2. Password reset — email link flow`;
+
+export function PlanImportDialog({ open, onOpenChange, onImport }: PlanImportDialogProps) {
+  const [text, setText] = useState('');
+  const parsed = useMemo(() => parsePlan(text), [text]);
+  const summary = useMemo(() => summarizeParsedPlan(parsed), [parsed]);
+
+  const handleImport = () => {
+    onImport(parsed);
+    setText('');
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardPaste className="h-5 w-5 text-primary" />
+            Import Plan
+          </DialogTitle>
+          <DialogDescription>
+            Paste an outline from a doc, an issue or a chat: markdown headings, bullet or numbered lists,
+            GitHub task lists or JSON. Hours like (4h), priorities and #tags are picked up from each line.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={PLACEHOLDER}
+            className="min-h-[320px] font-mono text-xs"
+            aria-label="Plan to import"
+          />
+
+          <div className="space-y-3 max-h-[320px] overflow-y-auto pr-1">
+            {parsed.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {text.trim() ? 'No tasks found in this text yet.' : 'A preview of the phases and tasks appears here.'}
+              </p>
+            ) : (
+              <>
+                <p className="text-xs text-muted-foreground">
+                  {summary.phases} phase{summary.phases === 1 ? '' : 's'}, {summary.tasks} task{summary.tasks === 1 ? '' : 's'}
+                  {summary.subtasks > 0 && `, ${summary.subtasks} subtask${summary.subtasks === 1 ? '' : 's'}`}
+                  {' · '}{summary.estimatedHours}h estimated
+                  {summary.unestimated > 0 && ` (${summary.unestimated} without hours)`}
+                </p>
+                {parsed.map((phase, phaseIndex) => (
+                  <div key={phaseIndex} className="space-y-1">
+                    <h4 className="text-sm font-semibold">{phase.name}</h4>
+                    {phase.microtasks.map((task, taskIndex) => (
+                      <div key={taskIndex} className="flex items-start gap-2 p-2 rounded-md bg-muted/50">
+                        {task.isCompleted && <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600 flex-shrink-0" />}
+                        <div className="min-w-0 flex-grow">
+                          <p className="text-sm truncate">{task.name}</p>
+                          {task.subtasks.length > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              {task.subtasks.length} subtask{task.subtasks.length === 1 ? '' : 's'}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex flex-wrap justify-end gap-1 flex-shrink-0">
+                          {task.estimatedTime !== undefined && <Badge variant="outline" className="text-xs">{task.estimatedTime}h</Badge>}
+                          {task.priority && <Badge variant="outline" className="text-xs">{task.priority}</Badge>}
+                          {task.tags.map(tag => (
+                            <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleImport} disabled={parsed.length === 0}>
+            Import {summary.tasks > 0 ? `${summary.tasks} Task${summary.tasks === 1 ? '' : 's'}` : 'Tasks'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
 // src/components/mindscope/project-intelligence-dashboard.tsx
 "use client";
 
-import React, { useEffect, useState } from 'react';
+import React, { useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
@@ -25,21 +25,29 @@ import {
   Code,
   Database,
   Server,
-  Smartphone
+  Smartphone,
+  Route
 } from 'lucide-react';
 import type { Project } from '@/lib/types';
 import { 
   calculateProjectProgress, 
   calculateWeightedProgress,
+  calculatePhaseProgress,
   getProjectStats,
   predictCompletionDate,
   identifyBottlenecks,
   generateProgressInsights
 } from '@/lib/services/progress-tracker';
+import { summarizePert } from '@/lib/services/pert';
+import { ForecastDistribution } from '@/components/mindscope/forecast-distribution';
+import { EstimationAccuracyPanel } from '@/components/mindscope/estimation-accuracy-panel';
+import { EarnedValuePanel } from '@/components/mindscope/earned-value-panel';
+import type { CostSettings } from '@/lib/services/earned-value';
 
 interface ProjectIntelligenceDashboardProps {
   project: Project;
   onOptimizeProject?: (forceRefresh?: boolean) => void;
+  onUpdateCostSettings?: (settings: CostSettings) => void;
   optimizationResults?: {
     optimizations: string[];
     timelinePrediction: string;
@@ -52,19 +60,14 @@ interface ProjectIntelligenceDashboardProps {
 export function ProjectIntelligenceDashboard({ 
   project, 
   onOptimizeProject,
+  onUpdateCostSettings,
   optimizationResults 
 }: ProjectIntelligenceDashboardProps) {
-  const [stats, setStats] = useState(getProjectStats(project));
-  const [prediction, setPrediction] = useState(predictCompletionDate(project));
-  const [bottlenecks, setBottlenecks] = useState(identifyBottlenecks(project));
-  const [insights, setInsights] = useState(generateProgressInsights(project));
-
-  useEffect(() => {
-    setStats(getProjectStats(project));
-    setPrediction(predictCompletionDate(project));
-    setBottlenecks(identifyBottlenecks(project));
-    setInsights(generateProgressInsights(project));
-  }, [project]);
+  // The forecast runs a Monte Carlo simulation, so it is computed once per project change and shared with the insights
+  const stats = useMemo(() => getProjectStats(project), [project]);
+  const prediction = useMemo(() => predictCompletionDate(project), [project]);
+  const bottlenecks = useMemo(() => identifyBottlenecks(project), [project]);
+  const insights = useMemo(() => generateProgressInsights(project, prediction), [project, prediction]);
 
   const progressPercentage = calculateProjectProgress(project);
   const weightedProgress = calculateWeightedProgress(project);
@@ -77,6 +80,12 @@ export function ProjectIntelligenceDashboard({
     });
   };
 
+  // Percentiles the team's capacity cannot reach have no date
+  const formatForecastDate = (timestamp: number | null) => {
+    if (timestamp !== null) return formatDate(timestamp);
+    return prediction.forecast.limit === 'no-capacity' ? 'No capacity' : 'Beyond horizon';
+  };
+
   const getTechStackIcon = (tech: string) => {
     const techLower = tech.toLowerCase();
     if (techLower.includes('react') || techLower.includes('vue') || techLower.includes('angular')) {
@@ -146,8 +155,9 @@ export function ProjectIntelligenceDashboard({
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-gray-600">Completion</p>
-                <p className="text-lg font-semibold">{formatDate(prediction.estimatedCompletionDate)}</p>
+                <p className="text-sm text-gray-600">Completion (P50)</p>
+                <p className="text-lg font-semibold">{formatForecastDate(prediction.estimatedCompletionDate)}</p>
+                <p className="text-xs text-gray-500">P85 {formatForecastDate(prediction.forecast.p85)}</p>
               </div>
               <div className="p-2 bg-green-100 rounded-full">
                 <Calendar className="h-6 w-6 text-green-600" />
@@ -226,9 +236,11 @@ export function ProjectIntelligenceDashboard({
       )}
 
       <Tabs defaultValue="insights" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="insights">AI Insights</TabsTrigger>
           <TabsTrigger value="progress">Progress Analysis</TabsTrigger>
+          <TabsTrigger value="estimates">Estimates</TabsTrigger>
+          <TabsTrigger value="cost">Cost</TabsTrigger>
           <TabsTrigger value="tech-stack">Tech Stack</TabsTrigger>
           <TabsTrigger value="optimization">Optimization</TabsTrigger>
         </TabsList>
@@ -323,9 +335,12 @@ export function ProjectIntelligenceDashboard({
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
                     <span>Weighted Progress</span>
-                    <span>{weightedProgress}%</span>
+                    <span>{weightedProgress.percentage}%</span>
                   </div>
-                  <Progress value={weightedProgress} />
+                  <Progress value={weightedProgress.percentage} />
+                  <p className="text-xs text-gray-500">
+                    Weighted by expected hours: {weightedProgress.expectedHours}h ± {weightedProgress.standardDeviation}h in total
+                  </p>
                 </div>
 
                 <Separator />
@@ -347,23 +362,35 @@ export function ProjectIntelligenceDashboard({
             <Card>
               <CardHeader>
                 <CardTitle>Timeline Prediction</CardTitle>
+                <CardDescription>Monte Carlo forecast of the remaining work</CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="text-center">
-                  <p className="text-2xl font-bold text-blue-600">
-                    {formatDate(prediction.estimatedCompletionDate)}
-                  </p>
-                  <p className="text-sm text-gray-600">Estimated completion</p>
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div>
+                    <p className="text-xl font-bold text-blue-600">{formatForecastDate(prediction.forecast.p50)}</p>
+                    <p className="text-xs text-gray-600">P50 · likely</p>
+                  </div>
+                  <div>
+                    <p className="text-xl font-bold text-orange-600">{formatForecastDate(prediction.forecast.p85)}</p>
+                    <p className="text-xs text-gray-600">P85 · safe</p>
+                  </div>
+                  <div>
+                    <p className="text-xl font-bold text-red-600">{formatForecastDate(prediction.forecast.p95)}</p>
+                    <p className="text-xs text-gray-600">P95 · worst case</p>
+                  </div>
                 </div>
 
                 <div className="grid grid-cols-2 gap-4 text-sm">
                   <div>
                     <p className="text-gray-600">Remaining</p>
                     <p className="font-semibold">{Math.round(prediction.remainingHours)}h</p>
+                    <p className="text-xs text-gray-500">
+                      PERT {prediction.expectedRemainingHours}h ± {prediction.remainingStandardDeviation}h
+                    </p>
                   </div>
                   <div>
                     <p className="text-gray-600">Daily Target</p>
-                    <p className="font-semibold">{Math.round(prediction.recommendedDaily)}h/day</p>
+                    <p className="font-semibold">{prediction.recommendedDaily === null ? '—' : `${Math.round(prediction.recommendedDaily)}h/day`}</p>
                   </div>
                 </div>
 
@@ -374,6 +401,10 @@ export function ProjectIntelligenceDashboard({
             </Card>
           </div>
 
+          {stats.completedTasks < stats.totalTasks && (
+            <ForecastDistribution forecast={prediction.forecast} />
+          )}
+
           {/* Phase Progress */}
           <Card>
             <CardHeader>
@@ -382,7 +413,8 @@ export function ProjectIntelligenceDashboard({
             <CardContent>
               <div className="space-y-4">
                 {project.phases.map((phase) => {
-                  const phaseProgress = Math.round((phase.microtasks.filter(t => t.isCompleted).length / phase.microtasks.length) * 100);
+                  const phaseProgress = calculatePhaseProgress(phase);
+                  const phaseEstimate = summarizePert(phase.microtasks);
                   return (
                     <div key={phase.id} className="space-y-2">
                       <div className="flex justify-between items-center">
@@ -390,7 +422,10 @@ export function ProjectIntelligenceDashboard({
                           <h4 className="font-medium">{phase.name}</h4>
                           {phase.milestone && <Badge variant="outline">Milestone</Badge>}
                         </div>
-                        <span className="text-sm text-gray-600">{phaseProgress}%</span>
+                        <span className="text-sm text-gray-600">
+                          {phaseEstimate.expectedHours}h
+                          {phaseEstimate.standardDeviation > 0 && ` ± ${phaseEstimate.standardDeviation}h`} · {phaseProgress}%
+                        </span>
                       </div>
                       <Progress value={phaseProgress} />
                     </div>
@@ -399,6 +434,48 @@ export function ProjectIntelligenceDashboard({
               </div>
             </CardContent>
           </Card>
+
+          {/* Critical Path */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Route className="h-5 w-5" />
+                Critical Path
+              </CardTitle>
+              <CardDescription>
+                Longest chain of dependent tasks based on estimated hours ({stats.criticalPathHours}h total)
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {stats.criticalPath.length > 0 ? (
+                <ol className="space-y-2">
+                  {stats.criticalPath.map((task, index) => (
+                    <li key={task.id} className="flex items-center justify-between p-2 border rounded-lg">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="text-xs text-gray-500 w-5 flex-shrink-0">{index + 1}.</span>
+                        <span className={`text-sm truncate ${task.isCompleted ? 'line-through text-gray-500' : ''}`}>
+                          {task.name}
+                        </span>
+                      </div>
+                      <Badge variant="outline" className="text-xs flex-shrink-0">
+                        {task.estimatedTime}h
+                      </Badge>
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-gray-500 text-sm">Add time estimates and dependencies to tasks to see the critical path.</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="estimates" className="space-y-4">
+          <EstimationAccuracyPanel project={project} />
+        </TabsContent>
+
+        <TabsContent value="cost" className="space-y-4">
+          <EarnedValuePanel project={project} onUpdateCostSettings={onUpdateCostSettings} />
         </TabsContent>
 
         <TabsContent value="tech-stack" className="space-y-4">
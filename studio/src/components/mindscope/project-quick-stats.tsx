@@ -11,10 +11,14 @@ import {
   AlertTriangle, 
   TrendingUp,
   Calendar,
-  Target
+  Target,
+  DollarSign,
+  Users
 } from 'lucide-react';
 import type { Project } from '@/lib/types';
 import { getProjectStats, calculateProjectProgress } from '@/lib/services/progress-tracker';
+import { calculateEarnedValue, formatCurrency } from '@/lib/services/earned-value';
+import { UNASSIGNED } from '@/lib/services/assignees';
 
 interface ProjectQuickStatsProps {
   project: Project;
@@ -24,6 +28,7 @@ interface ProjectQuickStatsProps {
 export function ProjectQuickStats({ project, className = '' }: ProjectQuickStatsProps) {
   const stats = getProjectStats(project);
   const progress = calculateProjectProgress(project);
+  const cost = calculateEarnedValue(project);
   
   const getEfficiencyColor = (efficiency: number) => {
     if (efficiency <= 1.1) return 'text-green-600';
@@ -37,6 +42,13 @@ export function ProjectQuickStats({ project, className = '' }: ProjectQuickStats
     return <AlertTriangle className="h-4 w-4 text-red-600" />;
   };
 
+  const getIndexColor = (index: number | null) => {
+    if (index === null) return 'text-gray-500';
+    if (index >= 1) return 'text-green-600';
+    if (index >= 0.9) return 'text-yellow-600';
+    return 'text-red-600';
+  };
+
   return (
     <Card className={`${className}`}>
       <CardContent className="p-4">
@@ -114,6 +126,44 @@ export function ProjectQuickStats({ project, className = '' }: ProjectQuickStats
           </div>
         </div>
 
+        {/* Open hours per person */}
+        {project.team.length > 0 && stats.openWorkload.some(entry => entry.openTasks > 0) && (
+          <div className="mt-4 pt-3 border-t">
+            <div className="flex items-center gap-2 mb-2">
+              <Users className="h-4 w-4 text-blue-600" />
+              <span className="text-sm font-medium">Open work by person</span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {stats.openWorkload.map(entry => (
+                <Badge
+                  key={entry.member}
+                  variant={entry.member === UNASSIGNED ? 'secondary' : 'outline'}
+                  className="text-xs font-normal"
+                >
+                  {entry.member === UNASSIGNED ? 'Unassigned' : entry.member}: {entry.openHours}h · {entry.openTasks} {entry.openTasks === 1 ? 'task' : 'tasks'}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Cost */}
+        {cost && (
+          <div className="mt-4 pt-3 border-t">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+              <div className="flex items-center gap-1 font-medium">
+                <DollarSign className="h-3 w-3 text-green-600" />
+                <span>{formatCurrency(cost.actualCost)} of {formatCurrency(cost.budgetAtCompletion)} spent</span>
+              </div>
+              <span className={getIndexColor(cost.cpi)}>CPI {cost.cpi?.toFixed(2) ?? '—'}</span>
+              <span className={getIndexColor(cost.spi)}>SPI {cost.spi?.toFixed(2) ?? '—'}</span>
+              <span className={cost.varianceAtCompletion < 0 ? 'text-red-600' : 'text-gray-600'}>
+                EAC {formatCurrency(cost.estimateAtCompletion)}
+              </span>
+            </div>
+          </div>
+        )}
+
         {/* Quick Alerts */}
         {(stats.upcomingDeadlines.length > 0 || stats.criticalTasks.length > 0) && (
           <div className="mt-4 pt-3 border-t">
@@ -8,12 +8,13 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Label } from "@/components/ui/label";
 import { Wand2, Loader2 } from 'lucide-react';
 import type { suggestTasks, SuggestTasksOutput } from '@/ai/flows/suggest-tasks';
+import { describeAIFailure } from '@/ai/results';
 import type { Project } from '@/lib/types';
 
 interface ProjectSetupProps {
   project: Project;
   onProjectChange: (title: string, description: string) => void;
-  onAISuggestions: (suggestions: string[]) => void;
+  onAISuggestions: (phases: SuggestTasksOutput['phases']) => void;
   suggestTasksAction: typeof suggestTasks; 
 }
 
@@ -92,13 +93,13 @@ export function ProjectSetup({ project, onProjectChange, onAISuggestions, sugges
     lastValidDescriptionRef.current = descriptionToUse;
     
     try {
-      const result: SuggestTasksOutput = await suggestTasksAction({ projectDescription: descriptionToUse });
-      if (result && result.suggestions) {
+      const result = await suggestTasksAction({ projectDescription: descriptionToUse });
+      if (result.ok) {
         // Ensure we update with current values
         onProjectChange(currentTitle, descriptionToUse);
-        onAISuggestions(result.suggestions);
+        onAISuggestions(result.data.phases);
       } else {
-        setError("Received no suggestions from AI.");
+        setError(`AI Error: ${describeAIFailure(result)}`);
         onAISuggestions([]);
       }
     } catch (err) {
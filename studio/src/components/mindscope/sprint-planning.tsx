@@ -0,0 +1,278 @@
+// src/components/mindscope/sprint-planning.tsx
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Project, Sprint } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { IterationCw, PlusCircle, Clock, X, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { fromDateKey, toDateKey } from '@/lib/services/working-calendar';
+import {
+  commitTaskToSprint,
+  createSprint,
+  getBacklogTasks,
+  getCurrentSprint,
+  getOpenSprints,
+  getSprintTasks,
+  removeTaskFromSprint,
+  summarizeSprint,
+  validateSprint,
+  type SprintTask
+} from '@/lib/services/sprints';
+
+interface SprintPlanningProps {
+  project: Project;
+  onUpdateSprints: (sprints: Sprint[]) => void;
+}
+
+type DropZone = 'backlog' | 'sprint';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+export function SprintPlanning({ project, onUpdateSprints }: SprintPlanningProps) {
+  const sprints = project.sprints || [];
+  const openSprints = getOpenSprints(project);
+  const [selectedId, setSelectedId] = useState<string | undefined>(getCurrentSprint(project)?.id);
+  const [draggedTask, setDraggedTask] = useState<{ taskId: string; from: DropZone } | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropZone | null>(null);
+
+  // Fall back to the current sprint when the selected one is closed or removed
+  const sprint = openSprints.find(s => s.id === selectedId) || getCurrentSprint(project);
+  const backlog = useMemo(() => getBacklogTasks(project), [project]);
+  const committed = useMemo(() => (sprint ? getSprintTasks(project, sprint) : []), [project, sprint]);
+  const summary = useMemo(() => (sprint ? summarizeSprint(project, sprint) : null), [project, sprint]);
+
+  const handleCreateSprint = () => {
+    const newSprint = createSprint(project);
+    onUpdateSprints([...sprints, newSprint]);
+    setSelectedId(newSprint.id);
+  };
+
+  const handleDrop = (zone: DropZone) => {
+    setDropTarget(null);
+    if (!draggedTask || !sprint || draggedTask.from === zone) return;
+    setDraggedTask(null);
+    onUpdateSprints(zone === 'sprint'
+      ? commitTaskToSprint(sprints, sprint.id, draggedTask.taskId)
+      : removeTaskFromSprint(sprints, sprint.id, draggedTask.taskId));
+  };
+
+  const dropZoneProps = (zone: DropZone) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (dropTarget !== zone) setDropTarget(zone);
+    },
+    onDragLeave: () => setDropTarget(prev => (prev === zone ? null : prev)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      handleDrop(zone);
+    },
+    className: `min-h-[12rem] rounded-lg border border-dashed p-2 space-y-2 transition-colors ${dropTarget === zone ? 'bg-primary/10 border-primary' : 'bg-muted/30'}`
+  });
+
+  const renderTask = ({ task, phaseName }: SprintTask, from: DropZone) => (
+    <div
+      key={task.id}
+      draggable={!task.isCompleted}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        setDraggedTask({ taskId: task.id, from });
+      }}
+      onDragEnd={() => {
+        setDraggedTask(null);
+        setDropTarget(null);
+      }}
+      className={`flex items-start justify-between gap-2 rounded-md border bg-card p-2 shadow-sm ${task.isCompleted ? '' : 'cursor-grab active:cursor-grabbing'} ${draggedTask?.taskId === task.id ? 'opacity-50' : ''}`}
+    >
+      <div className="min-w-0">
+        <p className={`text-sm truncate ${task.isCompleted ? 'line-through text-muted-foreground' : ''}`}>{task.name}</p>
+        <div className="flex flex-wrap items-center gap-1 mt-1 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            {task.estimatedTime}h
+          </span>
+          <Badge variant="secondary" className="text-xs">{phaseName}</Badge>
+          {(task.assignees || []).map(member => (
+            <Badge key={member} variant="outline" className="text-xs">{member}</Badge>
+          ))}
+        </div>
+      </div>
+      {from === 'sprint' && sprint && !task.isCompleted && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 flex-shrink-0"
+          onClick={() => onUpdateSprints(removeTaskFromSprint(sprints, sprint.id, task.id))}
+          aria-label={`Move ${task.name} back to the backlog`}
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <IterationCw className="h-5 w-5" />
+              Sprint Planning
+            </CardTitle>
+            <CardDescription>Drag tasks from the backlog into the sprint to commit to them.</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {openSprints.length > 0 && sprint && (
+              <Select value={sprint.id} onValueChange={setSelectedId}>
+                <SelectTrigger className="w-48" aria-label="Sprint to plan"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {openSprints.map(s => (
+                    <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button size="sm" variant="outline" onClick={handleCreateSprint}>
+              <PlusCircle className="h-4 w-4 mr-1" /> New Sprint
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!sprint ? (
+          <p className="text-sm text-muted-foreground">Create a sprint to start planning an iteration.</p>
+        ) : (
+          <>
+            <SprintDetailsForm
+              sprint={sprint}
+              onSave={(details) => onUpdateSprints(sprints.map(s => (s.id === sprint.id ? { ...s, ...details } : s)))}
+            />
+
+            {summary && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>Committed vs capacity</span>
+                  <span className={summary.isOverCommitted ? 'text-red-600 font-medium' : ''}>
+                    {summary.committedHours}h of {summary.capacityHours}h
+                  </span>
+                </div>
+                <Progress value={summary.capacityHours > 0 ? Math.min(100, (summary.committedHours / summary.capacityHours) * 100) : 0} />
+                {summary.isOverCommitted && (
+                  <p className="flex items-center gap-1 text-xs text-red-600">
+                    <AlertTriangle className="h-3 w-3" />
+                    Over-committed by {Math.round((summary.committedHours - summary.capacityHours) * 10) / 10}h; move some tasks back to the backlog.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between px-1">
+                  <h4 className="text-sm font-semibold">Backlog</h4>
+                  <Badge variant="secondary" className="text-xs">{backlog.length}</Badge>
+                </div>
+                <div {...dropZoneProps('backlog')}>
+                  {backlog.length > 0 ? backlog.map(entry => renderTask(entry, 'backlog')) : (
+                    <p className="text-xs text-muted-foreground p-2">Every open task is committed to a sprint.</p>
+                  )}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between px-1">
+                  <h4 className="text-sm font-semibold">
+                    {sprint.name} · {formatDate(sprint.startDate)} – {formatDate(sprint.endDate)}
+                  </h4>
+                  <Badge variant="secondary" className="text-xs">{committed.length}</Badge>
+                </div>
+                <div {...dropZoneProps('sprint')}>
+                  {committed.length > 0 ? committed.map(entry => renderTask(entry, 'sprint')) : (
+                    <p className="text-xs text-muted-foreground p-2">Drop tasks here.</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface SprintDetailsFormProps {
+  sprint: Sprint;
+  onSave: (details: Pick<Sprint, 'name' | 'startDate' | 'endDate' | 'goal'>) => void;
+}
+
+function SprintDetailsForm({ sprint, onSave }: SprintDetailsFormProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState(sprint.name);
+  const [startDate, setStartDate] = useState(toDateKey(sprint.startDate));
+  const [endDate, setEndDate] = useState(toDateKey(sprint.endDate));
+  const [goal, setGoal] = useState(sprint.goal || '');
+
+  // Reset the form when another sprint (or a remote change) is loaded
+  useEffect(() => {
+    setName(sprint.name);
+    setStartDate(toDateKey(sprint.startDate));
+    setEndDate(toDateKey(sprint.endDate));
+    setGoal(sprint.goal || '');
+  }, [sprint.id, sprint.name, sprint.startDate, sprint.endDate, sprint.goal]);
+
+  const isDirty = name !== sprint.name
+    || startDate !== toDateKey(sprint.startDate)
+    || endDate !== toDateKey(sprint.endDate)
+    || goal !== (sprint.goal || '');
+
+  const handleSave = () => {
+    const details = {
+      name: name.trim(),
+      startDate: startDate ? fromDateKey(startDate) : NaN,
+      endDate: endDate ? fromDateKey(endDate) : NaN,
+      goal: goal.trim()
+    };
+    const error = validateSprint(details);
+    if (error) {
+      toast({ title: "Invalid Sprint", description: error, variant: "destructive" });
+      return;
+    }
+    onSave(details);
+    toast({ title: "Sprint Updated", description: `${details.name} saved.` });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto] gap-3 items-end">
+      <div className="space-y-1">
+        <Label htmlFor="sprint-name">Name</Label>
+        <Input id="sprint-name" value={name} onChange={(e) => setName(e.target.value)} className="h-8" />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="sprint-start">Start</Label>
+        <Input id="sprint-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="h-8 w-40" />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="sprint-end">End</Label>
+        <Input id="sprint-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="h-8 w-40" />
+      </div>
+      <div className="space-y-1 md:col-span-2">
+        <Label htmlFor="sprint-goal">Goal</Label>
+        <Input id="sprint-goal" value={goal} onChange={(e) => setGoal(e.target.value)} placeholder="What should this sprint achieve?" className="h-8" />
+      </div>
+      <Button size="sm" onClick={handleSave} disabled={!isDirty}>Save Sprint</Button>
+    </div>
+  );
+}
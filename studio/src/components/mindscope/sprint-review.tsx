@@ -0,0 +1,161 @@
+// src/components/mindscope/sprint-review.tsx
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import type { Project, Sprint } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Goal, CheckCircle2, Circle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  closeSprint,
+  getCurrentSprint,
+  getOpenSprints,
+  getSprintTasks,
+  summarizeSprint
+} from '@/lib/services/sprints';
+
+interface SprintReviewProps {
+  project: Project;
+  onUpdateSprints: (sprints: Sprint[]) => void;
+}
+
+export function SprintReview({ project, onUpdateSprints }: SprintReviewProps) {
+  const { toast } = useToast();
+  const openSprints = getOpenSprints(project);
+  const closedSprints = (project.sprints || [])
+    .filter(sprint => sprint.closedAt)
+    .sort((a, b) => b.startDate - a.startDate);
+  const [selectedId, setSelectedId] = useState<string | undefined>(getCurrentSprint(project)?.id);
+
+  const sprint = openSprints.find(s => s.id === selectedId) || getCurrentSprint(project);
+  const tasks = useMemo(() => (sprint ? getSprintTasks(project, sprint) : []), [project, sprint]);
+  const summary = useMemo(() => (sprint ? summarizeSprint(project, sprint) : null), [project, sprint]);
+  const completed = tasks.filter(({ task }) => task.isCompleted);
+  const unfinished = tasks.filter(({ task }) => !task.isCompleted);
+  // Without leftover work, closing only starts another sprint when asked to
+  const hasLaterSprint = Boolean(sprint && openSprints.some(s => s.id !== sprint.id && s.startDate > sprint.startDate));
+
+  const handleClose = (startNextSprint = false) => {
+    if (!sprint) return;
+    const updatedSprints = closeSprint(project, sprint.id, { startNextSprint });
+    const next = getOpenSprints({ ...project, sprints: updatedSprints })
+      .find(s => s.startDate > sprint.startDate);
+    onUpdateSprints(updatedSprints);
+    setSelectedId(next?.id);
+    toast({
+      title: "Sprint Closed",
+      description: unfinished.length > 0 && next
+        ? `${unfinished.length} unfinished task${unfinished.length === 1 ? '' : 's'} rolled into ${next.name}.`
+        : `${sprint.name} completed with nothing left over.${startNextSprint && next ? ` ${next.name} is ready for planning.` : ''}`
+    });
+  };
+
+  if (!sprint && closedSprints.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Goal className="h-5 w-5" />
+              Sprint Review
+            </CardTitle>
+            <CardDescription>
+              {sprint?.goal ? `Goal: ${sprint.goal}` : 'Close a sprint to roll its unfinished work into the next one.'}
+            </CardDescription>
+          </div>
+          {openSprints.length > 1 && sprint && (
+            <Select value={sprint.id} onValueChange={setSelectedId}>
+              <SelectTrigger className="w-48" aria-label="Sprint to review"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {openSprints.map(s => (
+                  <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sprint && summary && (
+          <>
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <p className="text-xl font-bold">{summary.completedCount}/{summary.taskCount}</p>
+                <p className="text-xs text-gray-600">Tasks done</p>
+              </div>
+              <div>
+                <p className="text-xl font-bold">{summary.completedHours}h</p>
+                <p className="text-xs text-gray-600">of {summary.committedHours}h committed</p>
+              </div>
+              <div>
+                <p className="text-xl font-bold">{summary.remainingHours}h</p>
+                <p className="text-xs text-gray-600">Remaining</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <h4 className="text-sm font-semibold">Completed</h4>
+                {completed.length > 0 ? completed.map(({ task }) => (
+                  <p key={task.id} className="flex items-center gap-2 text-sm">
+                    <CheckCircle2 className="h-4 w-4 text-green-600 flex-shrink-0" />
+                    <span className="truncate">{task.name}</span>
+                  </p>
+                )) : <p className="text-xs text-muted-foreground">Nothing completed yet.</p>}
+              </div>
+              <div className="space-y-1">
+                <h4 className="text-sm font-semibold">Unfinished</h4>
+                {unfinished.length > 0 ? unfinished.map(({ task }) => (
+                  <p key={task.id} className="flex items-center gap-2 text-sm">
+                    <Circle className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                    <span className="truncate">{task.name}</span>
+                    <Badge variant="outline" className="text-xs ml-auto">{task.estimatedTime}h</Badge>
+                  </p>
+                )) : <p className="text-xs text-muted-foreground">All committed work is done.</p>}
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => handleClose()}>
+                {unfinished.length > 0 ? `Close ${sprint.name} & Roll Over` : `Close ${sprint.name}`}
+              </Button>
+              {unfinished.length === 0 && !hasLaterSprint && (
+                <Button size="sm" variant="outline" onClick={() => handleClose(true)}>
+                  Close & Start Next Sprint
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+
+        {closedSprints.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Closed sprints</h4>
+            {closedSprints.map(closed => {
+              const closedSummary = summarizeSprint(project, closed);
+              return (
+                <div key={closed.id} className="flex items-center justify-between text-sm p-2 border rounded-lg">
+                  <span className="font-medium">{closed.name}</span>
+                  <span className="text-muted-foreground">
+                    {closedSummary.completedCount}/{closedSummary.taskCount} tasks · {closedSummary.completedHours}h of {closedSummary.committedHours}h
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,127 @@
+// src/components/mindscope/subtask-editor.tsx
+"use client";
+
+import React, { useState } from 'react';
+import type { Subtask } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PlusCircle, Trash2, ListChecks } from 'lucide-react';
+import { countSubtasks, createSubtask, sumSubtaskEstimates, validateSubtasks } from '@/lib/services/subtasks';
+
+interface SubtaskEditorProps {
+  value: Subtask[];
+  onChange: (subtasks: Subtask[]) => void;
+  onUseTotal?: (hours: number) => void; // offered when every subtask has an estimate
+}
+
+export function SubtaskEditor({ value, onChange, onUseTotal }: SubtaskEditorProps) {
+  const [newName, setNewName] = useState('');
+
+  const updateSubtask = (id: string, changes: Partial<Subtask>) => {
+    onChange(value.map(subtask => (subtask.id === id ? { ...subtask, ...changes } : subtask)));
+  };
+
+  // Firebase rejects undefined, so a cleared estimate turns the subtask back into a checklist item
+  const updateEstimate = (subtask: Subtask, input: string) => {
+    const updated = { ...subtask };
+    if (input.trim() === '') {
+      delete updated.estimatedTime;
+    } else {
+      updated.estimatedTime = parseFloat(input);
+    }
+    onChange(value.map(entry => (entry.id === subtask.id ? updated : entry)));
+  };
+
+  const addSubtask = () => {
+    if (!newName.trim()) return;
+    onChange([...value, createSubtask(newName)]);
+    setNewName('');
+  };
+
+  const { completed, total } = countSubtasks(value);
+  const estimateTotal = sumSubtaskEstimates(value);
+  const error = validateSubtasks(value);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-1">
+          <ListChecks className="h-4 w-4" /> Subtasks
+        </Label>
+        {total > 0 && <span className="text-xs text-muted-foreground">{completed}/{total} done</span>}
+      </div>
+
+      {value.length === 0 && (
+        <p className="text-xs text-muted-foreground">Break the task into steps. Add an estimate to make a step a subtask, or leave it out for a checklist item.</p>
+      )}
+
+      {value.map(subtask => (
+        <div key={subtask.id} className="flex items-center gap-2">
+          <Checkbox
+            checked={subtask.isCompleted}
+            onCheckedChange={(checked) => updateSubtask(subtask.id, { isCompleted: checked === true })}
+            aria-label={`Mark ${subtask.name || 'subtask'} as ${subtask.isCompleted ? 'incomplete' : 'complete'}`}
+          />
+          <Input
+            value={subtask.name}
+            onChange={(e) => updateSubtask(subtask.id, { name: e.target.value })}
+            className="h-8 flex-grow"
+            aria-label="Subtask name"
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.25"
+            value={subtask.estimatedTime ?? ''}
+            onChange={(e) => updateEstimate(subtask, e.target.value)}
+            placeholder="h"
+            className="h-8 w-20"
+            aria-label={`Hours for ${subtask.name || 'subtask'}`}
+          />
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+            onClick={() => onChange(value.filter(entry => entry.id !== subtask.id))}
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Remove subtask</span>
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addSubtask();
+            }
+          }}
+          placeholder="New subtask or checklist item"
+          className="h-8"
+        />
+        <Button size="sm" variant="outline" onClick={addSubtask} disabled={!newName.trim()}>
+          <PlusCircle className="h-4 w-4 mr-1" /> Add
+        </Button>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : estimateTotal !== null && (
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>Subtasks add up to {estimateTotal}h</span>
+          {onUseTotal && (
+            <Button size="sm" variant="link" className="h-auto p-0 text-xs" onClick={() => onUseTotal(estimateTotal)}>
+              Use as estimate
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+// src/components/mindscope/tag-input.tsx
+"use client";
+
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { X } from 'lucide-react';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[]; // tags already used elsewhere in the project
+  placeholder?: string;
+}
+
+export function TagInput({ value, onChange, suggestions, placeholder = 'Add tag...' }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
+  const query = draft.trim().toLowerCase();
+  const matchingSuggestions = suggestions
+    .filter(tag => !value.includes(tag) && (!query || tag.toLowerCase().includes(query)))
+    .slice(0, 8);
+
+  const addTag = (tag: string) => {
+    const normalized = tag.trim().toLowerCase();
+    if (normalized && !value.includes(normalized)) {
+      onChange([...value, normalized]);
+    }
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 rounded-md border border-input px-2 py-1 min-h-9">
+        {value.map(tag => (
+          <Badge key={tag} variant="secondary" className="text-xs gap-1">
+            {tag}
+            <button
+              type="button"
+              onClick={() => onChange(value.filter(t => t !== tag))}
+              className="hover:text-destructive"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={() => {
+            // Delay so a click on a suggestion still registers
+            setTimeout(() => setShowSuggestions(false), 150);
+          }}
+          placeholder={value.length === 0 ? placeholder : ''}
+          className="h-7 flex-grow min-w-[6rem] border-0 shadow-none p-0 text-sm focus-visible:ring-0 focus-visible:ring-offset-0"
+        />
+      </div>
+      {showSuggestions && matchingSuggestions.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+          {matchingSuggestions.map(tag => (
+            <button
+              key={tag}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag)}
+              className="w-full text-left text-sm px-2 py-1 rounded hover:bg-muted"
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+// src/components/mindscope/task-breakdown-dialog.tsx
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import type { Microtask, Subtask } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Wand2 } from 'lucide-react';
+import { SubtaskEditor } from './subtask-editor';
+import { sumSubtaskEstimates, validateSubtasks } from '@/lib/services/subtasks';
+
+interface TaskBreakdownDialogProps {
+  microtask: Microtask;
+  proposal: Subtask[] | null; // open while a proposal is waiting for review
+  onAccept: (subtasks: Subtask[], estimatedTime?: number) => void;
+  onDiscard: () => void;
+}
+
+export function TaskBreakdownDialog({ microtask, proposal, onAccept, onDiscard }: TaskBreakdownDialogProps) {
+  const [subtasks, setSubtasks] = useState<Subtask[]>(proposal || []);
+  const [useTotalAsEstimate, setUseTotalAsEstimate] = useState(false);
+
+  // Start from the fresh proposal every time one arrives
+  useEffect(() => {
+    setSubtasks(proposal || []);
+    setUseTotalAsEstimate(false);
+  }, [proposal]);
+
+  const error = validateSubtasks(subtasks);
+  const total = sumSubtaskEstimates(subtasks);
+  // A three-point estimate owns estimatedTime, so the total is only offered for single estimates
+  const canUseTotal = total !== null && total !== microtask.estimatedTime && !microtask.threePointEstimate;
+  const existingCount = microtask.subtasks?.length || 0;
+
+  const handleAccept = () => {
+    if (error || subtasks.length === 0) return;
+    onAccept(subtasks, canUseTotal && useTotalAsEstimate ? total! : undefined);
+  };
+
+  return (
+    <Dialog open={proposal !== null} onOpenChange={(open) => !open && onDiscard()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5 text-primary" />
+            Break Down "{microtask.name}"
+          </DialogTitle>
+          <DialogDescription>
+            Review the proposed subtasks. Edit, remove or add steps before accepting; nothing is saved until you do.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[55vh] overflow-y-auto pr-1">
+          <SubtaskEditor value={subtasks} onChange={setSubtasks} />
+        </div>
+
+        {canUseTotal && (
+          <div className="flex items-center gap-2">
+            <Switch id={`breakdown-total-${microtask.id}`} checked={useTotalAsEstimate} onCheckedChange={setUseTotalAsEstimate} />
+            <Label htmlFor={`breakdown-total-${microtask.id}`} className="text-sm">
+              Change the task estimate from {microtask.estimatedTime}h to {total}h
+            </Label>
+          </div>
+        )}
+        {existingCount > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Accepting replaces the task's {existingCount} existing subtask{existingCount === 1 ? '' : 's'}.
+          </p>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={onDiscard}>Discard</Button>
+          <Button onClick={handleAccept} disabled={Boolean(error) || subtasks.length === 0}>
+            Accept {subtasks.length} Subtask{subtasks.length === 1 ? '' : 's'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,13 +1,24 @@
 
 "use client";
 
-import React from 'react';
-import type { Project, Phase, Microtask } from '@/lib/types';
+import React, { useState } from 'react';
+import type { Project, Phase, Microtask, Subtask } from '@/lib/types';
 import { PhaseItem } from './phase-item';
 import { Accordion } from '@/components/ui/accordion';
 import { Button } from '@/components/ui/button';
-import { PlusCircle } from 'lucide-react';
+import { PlusCircle, ClipboardPaste } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ALL_ASSIGNEES, UNASSIGNED, getOpenWorkloadByAssignee } from '@/lib/services/assignees';
+import type { PhaseDiff, PhaseGenerationMode } from '@/lib/services/phase-regeneration';
+import type { ParsedPhase } from '@/lib/ai-parser';
+import { PlanImportDialog } from './plan-import-dialog';
 
 interface TaskListProps {
   project: Project;
@@ -17,6 +28,10 @@ interface TaskListProps {
   onAddMicrotask: (phaseId: string, microtaskName: string) => void;
   onUpdateMicrotask: (phaseId: string, updatedMicrotask: Microtask) => void;
   onDeleteMicrotask: (phaseId: string, microtaskId: string) => void;
+  onBreakDownMicrotask?: (phaseId: string, microtask: Microtask) => Promise<Subtask[] | null>;
+  onGeneratePhaseTasks?: (phaseId: string, mode: PhaseGenerationMode) => Promise<PhaseDiff | null>;
+  onApplyPhaseDiff?: (diff: PhaseDiff) => void;
+  onImportPlan?: (parsed: ParsedPhase[]) => void;
 }
 
 export function TaskList({
@@ -27,7 +42,18 @@ export function TaskList({
   onAddMicrotask,
   onUpdateMicrotask,
   onDeleteMicrotask,
+  onBreakDownMicrotask,
+  onGeneratePhaseTasks,
+  onApplyPhaseDiff,
+  onImportPlan,
 }: TaskListProps) {
+  const [assigneeFilter, setAssigneeFilter] = useState(ALL_ASSIGNEES);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  // Filter options come from the team plus anyone still assigned after leaving it
+  const people = project ? getOpenWorkloadByAssignee(project).map(entry => entry.member).filter(member => member !== UNASSIGNED) : [];
+  // Fall back to everyone when the filtered person has left the team
+  const activeFilter = people.includes(assigneeFilter) || assigneeFilter === UNASSIGNED ? assigneeFilter : ALL_ASSIGNEES;
   
   const handleAddNewPhase = () => {
     const phaseName = prompt("Enter new phase name:");
@@ -36,6 +62,10 @@ export function TaskList({
     }
   };
 
+  const importDialog = onImportPlan && (
+    <PlanImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} onImport={onImportPlan} />
+  );
+
   if (!project || project.phases.length === 0) {
     return (
       <Card className="mt-6 text-center shadow-lg">
@@ -43,10 +73,18 @@ export function TaskList({
             <CardTitle>No Phases Yet</CardTitle>
         </CardHeader>
         <CardContent>
-          <p className="text-muted-foreground mb-4">Add phases to your project or use AI suggestions.</p>
-          <Button onClick={handleAddNewPhase} className="bg-primary hover:bg-primary/90">
-            <PlusCircle className="mr-2 h-4 w-4" /> Add New Phase
-          </Button>
+          <p className="text-muted-foreground mb-4">Add phases to your project, paste an existing plan or use AI suggestions.</p>
+          <div className="flex justify-center gap-2">
+            <Button onClick={handleAddNewPhase} className="bg-primary hover:bg-primary/90">
+              <PlusCircle className="mr-2 h-4 w-4" /> Add New Phase
+            </Button>
+            {onImportPlan && (
+              <Button onClick={() => setIsImportOpen(true)} variant="outline">
+                <ClipboardPaste className="mr-2 h-4 w-4" /> Import Plan
+              </Button>
+            )}
+          </div>
+          {importDialog}
         </CardContent>
       </Card>
     );
@@ -56,20 +94,46 @@ export function TaskList({
     <div className="mt-6">
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-2xl font-semibold text-foreground">Project Phases</h2>
-        <Button onClick={handleAddNewPhase} variant="outline" className="text-primary border-primary hover:bg-primary hover:text-primary-foreground">
-          <PlusCircle className="mr-2 h-4 w-4" /> Add Phase
-        </Button>
+        <div className="flex items-center gap-2">
+          {people.length > 0 && (
+            <Select value={activeFilter} onValueChange={setAssigneeFilter}>
+              <SelectTrigger className="w-44" aria-label="Filter by person"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ASSIGNEES}>Everyone</SelectItem>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {people.map(member => (
+                  <SelectItem key={member} value={member}>{member}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {onImportPlan && (
+            <Button onClick={() => setIsImportOpen(true)} variant="outline">
+              <ClipboardPaste className="mr-2 h-4 w-4" /> Import Plan
+            </Button>
+          )}
+          <Button onClick={handleAddNewPhase} variant="outline" className="text-primary border-primary hover:bg-primary hover:text-primary-foreground">
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Phase
+          </Button>
+        </div>
       </div>
+      {importDialog}
       <Accordion type="multiple" className="w-full space-y-1" defaultValue={project.phases.map(p => p.id)}>
         {project.phases.map(phase => (
           <PhaseItem
             key={phase.id}
             phase={phase}
+            allPhases={project.phases}
+            team={project.team}
+            assigneeFilter={activeFilter}
             onUpdatePhase={onUpdatePhase}
             onDeletePhase={onDeletePhase}
             onAddMicrotask={onAddMicrotask}
             onUpdateMicrotask={onUpdateMicrotask}
             onDeleteMicrotask={onDeleteMicrotask}
+            onBreakDownMicrotask={onBreakDownMicrotask}
+            onGeneratePhaseTasks={onGeneratePhaseTasks}
+            onApplyPhaseDiff={onApplyPhaseDiff}
           />
         ))}
       </Accordion>
@@ -0,0 +1,82 @@
+// src/components/mindscope/team-settings.tsx
+"use client";
+
+import React, { useState } from 'react';
+import type { Project } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Users, X, UserPlus } from 'lucide-react';
+import { useAuth } from '@/contexts/auth-user-context';
+
+interface TeamSettingsProps {
+  project: Project;
+  onUpdateTeam: (team: string[]) => void;
+}
+
+export function TeamSettings({ project, onUpdateTeam }: TeamSettingsProps) {
+  const { authUser } = useAuth();
+  const [newMember, setNewMember] = useState('');
+  const currentUser = authUser ? (authUser.displayName || authUser.email || authUser.uid) : undefined;
+
+  const addMember = (member: string) => {
+    const name = member.trim();
+    if (!name || project.team.includes(name)) return;
+    onUpdateTeam([...project.team, name]);
+    setNewMember('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Team
+        </CardTitle>
+        <CardDescription>People who can be assigned tasks. Removing someone unassigns them from their tasks.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {project.team.length > 0 ? (
+          <div className="flex flex-wrap gap-1">
+            {project.team.map(member => (
+              <Badge key={member} variant="secondary" className="gap-1">
+                {member}
+                <button
+                  type="button"
+                  onClick={() => onUpdateTeam(project.team.filter(m => m !== member))}
+                  className="hover:text-destructive"
+                >
+                  <X className="h-3 w-3" />
+                  <span className="sr-only">Remove {member}</span>
+                </button>
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No team members yet.</p>
+        )}
+        <div className="flex gap-2">
+          <Input
+            value={newMember}
+            onChange={(e) => setNewMember(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addMember(newMember);
+              }
+            }}
+            placeholder="Name or email"
+            className="h-8"
+          />
+          <Button size="sm" variant="outline" onClick={() => addMember(newMember)} disabled={!newMember.trim()}>
+            <UserPlus className="h-4 w-4 mr-1" /> Add
+          </Button>
+          {currentUser && !project.team.includes(currentUser) && (
+            <Button size="sm" variant="ghost" onClick={() => addMember(currentUser)}>Add me</Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+// src/components/mindscope/time-log-editor.tsx
+"use client";
+
+import React from 'react';
+import type { TimeLogEntry } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PlusCircle, Trash2, Timer } from 'lucide-react';
+import { formatDuration, getTimeLogHours, validateTimeLog, validateTimeLogs } from '@/lib/services/time-tracking';
+
+interface TimeLogEditorProps {
+  value: TimeLogEntry[];
+  onChange: (timeLogs: TimeLogEntry[]) => void;
+  currentUser?: string; // attributed to sessions added by hand
+}
+
+// datetime-local inputs work in local time without a timezone suffix
+const toInputValue = (timestamp?: number) => {
+  if (timestamp === undefined) return '';
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export function TimeLogEditor({ value, onChange, currentUser }: TimeLogEditorProps) {
+  const updateEntry = (id: string, changes: Partial<TimeLogEntry>) => {
+    onChange(value.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+  };
+
+  const addEntry = () => {
+    const end = Date.now();
+    const entry: TimeLogEntry = { id: crypto.randomUUID(), start: end - 60 * 60 * 1000, end };
+    if (currentUser) entry.user = currentUser;
+    onChange([...value, entry]);
+  };
+
+  const totalHours = value.reduce((sum, entry) => sum + getTimeLogHours(entry), 0);
+  // Entry errors show inline; this catches list-level problems such as two running sessions
+  const listError = value.every(entry => !validateTimeLog(entry)) ? validateTimeLogs(value) : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-1">
+          <Timer className="h-4 w-4" /> Time log
+        </Label>
+        <span className="text-xs text-muted-foreground">{formatDuration(totalHours)} logged</span>
+      </div>
+
+      {value.length === 0 && (
+        <p className="text-xs text-muted-foreground">No sessions yet. Start the timer on the task or add one by hand.</p>
+      )}
+
+      {value.map(entry => {
+        const error = validateTimeLog(entry);
+        return (
+          <div key={entry.id} className="rounded-md border p-2 space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="datetime-local"
+                value={toInputValue(entry.start)}
+                onChange={(e) => updateEntry(entry.id, { start: new Date(e.target.value).getTime() })}
+                className="h-8 text-xs"
+                aria-label="Session start"
+              />
+              <Input
+                type="datetime-local"
+                value={toInputValue(entry.end)}
+                placeholder="Running"
+                onChange={(e) => updateEntry(entry.id, { end: e.target.value ? new Date(e.target.value).getTime() : undefined })}
+                className="h-8 text-xs"
+                aria-label="Session end"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                value={entry.user || ''}
+                onChange={(e) => updateEntry(entry.id, { user: e.target.value })}
+                placeholder="Who"
+                className="h-8 text-xs w-32"
+              />
+              <Input
+                value={entry.note || ''}
+                onChange={(e) => updateEntry(entry.id, { note: e.target.value })}
+                placeholder="Note"
+                className="h-8 text-xs flex-grow"
+              />
+              <span className="text-xs text-muted-foreground w-16 text-right">
+                {entry.end === undefined ? 'running' : formatDuration(getTimeLogHours(entry))}
+              </span>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 hover:text-destructive"
+                onClick={() => onChange(value.filter(e => e.id !== entry.id))}
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Delete session</span>
+              </Button>
+            </div>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+        );
+      })}
+
+      {listError && <p className="text-xs text-destructive">{listError}</p>}
+
+      <Button size="sm" variant="outline" onClick={addEntry}>
+        <PlusCircle className="h-4 w-4 mr-1" /> Add session
+      </Button>
+    </div>
+  );
+}
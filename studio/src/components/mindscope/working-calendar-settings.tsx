@@ -0,0 +1,253 @@
+// src/components/mindscope/working-calendar-settings.tsx
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import type { Project, WorkingCalendar, MemberAvailability } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CalendarDays, X, PlusCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  WEEKDAY_LABELS,
+  getWorkingCalendar,
+  validateWorkingCalendar
+} from '@/lib/services/working-calendar';
+
+interface WorkingCalendarSettingsProps {
+  project: Project;
+  onUpdateCalendar: (calendar: WorkingCalendar) => void;
+}
+
+export function WorkingCalendarSettings({ project, onUpdateCalendar }: WorkingCalendarSettingsProps) {
+  const { toast } = useToast();
+  const savedCalendar = getWorkingCalendar(project);
+  const [draft, setDraft] = useState<WorkingCalendar>(savedCalendar);
+  const [newHoliday, setNewHoliday] = useState('');
+
+  // Reset the draft when another project (or a remote change) is loaded
+  useEffect(() => {
+    setDraft(getWorkingCalendar(project));
+  }, [project.metadata?.calendar]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(savedCalendar);
+
+  const toggleWorkingDay = (weekday: number) => {
+    setDraft(prev => ({
+      ...prev,
+      workingDays: prev.workingDays.includes(weekday)
+        ? prev.workingDays.filter(day => day !== weekday)
+        : [...prev.workingDays, weekday].sort((a, b) => a - b)
+    }));
+  };
+
+  const addHoliday = () => {
+    if (!newHoliday || draft.holidays.includes(newHoliday)) return;
+    setDraft(prev => ({ ...prev, holidays: [...prev.holidays, newHoliday].sort() }));
+    setNewHoliday('');
+  };
+
+  const updateMember = (member: string, changes: Partial<MemberAvailability>) => {
+    setDraft(prev => {
+      const availability = prev.availability || [];
+      const existing = availability.find(entry => entry.member === member) || { member };
+      return {
+        ...prev,
+        availability: [...availability.filter(entry => entry.member !== member), { ...existing, ...changes }]
+      };
+    });
+  };
+
+  const handleSave = () => {
+    const error = validateWorkingCalendar(draft);
+    if (error) {
+      toast({ title: "Invalid Calendar", description: error, variant: "destructive" });
+      return;
+    }
+    // Drop availability for people no longer on the team and entries that change nothing
+    const availability = (draft.availability || [])
+      .filter(entry => project.team.includes(entry.member))
+      .map(entry => ({
+        member: entry.member,
+        ...(entry.hoursPerDay !== undefined ? { hoursPerDay: entry.hoursPerDay } : {}),
+        ...(entry.daysOff && entry.daysOff.length > 0 ? { daysOff: entry.daysOff } : {})
+      }))
+      .filter(entry => entry.hoursPerDay !== undefined || entry.daysOff);
+    onUpdateCalendar({ ...draft, availability });
+    toast({ title: "Calendar Updated", description: "Schedules and forecasts now use the new working calendar." });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5" />
+              Working Calendar
+            </CardTitle>
+            <CardDescription>
+              Working days, hours and time off used for the timeline, deadlines and completion forecasts.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {isDirty && (
+              <Button variant="ghost" size="sm" onClick={() => setDraft(savedCalendar)}>Reset</Button>
+            )}
+            <Button size="sm" onClick={handleSave} disabled={!isDirty}>Save</Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Working days</Label>
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAY_LABELS.map((label, weekday) => (
+                <Button
+                  key={label}
+                  size="sm"
+                  variant={draft.workingDays.includes(weekday) ? 'default' : 'outline'}
+                  className="h-8 w-12"
+                  onClick={() => toggleWorkingDay(weekday)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="calendar-hours">Productive hours per person per day</Label>
+            <Input
+              id="calendar-hours"
+              type="number"
+              min={0.5}
+              max={24}
+              step={0.5}
+              value={draft.hoursPerDay}
+              onChange={(e) => setDraft(prev => ({ ...prev, hoursPerDay: parseFloat(e.target.value) || 0 }))}
+              className="h-8 w-32"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="calendar-holiday">Holidays</Label>
+          <div className="flex gap-2">
+            <Input
+              id="calendar-holiday"
+              type="date"
+              value={newHoliday}
+              onChange={(e) => setNewHoliday(e.target.value)}
+              className="h-8 w-44"
+            />
+            <Button size="sm" variant="outline" onClick={addHoliday} disabled={!newHoliday}>
+              <PlusCircle className="h-4 w-4 mr-1" /> Add
+            </Button>
+          </div>
+          {draft.holidays.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {draft.holidays.map(holiday => (
+                <Badge key={holiday} variant="secondary" className="gap-1">
+                  {holiday}
+                  <button
+                    type="button"
+                    onClick={() => setDraft(prev => ({ ...prev, holidays: prev.holidays.filter(h => h !== holiday) }))}
+                    className="hover:text-destructive"
+                  >
+                    <X className="h-3 w-3" />
+                    <span className="sr-only">Remove {holiday}</span>
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Team availability</Label>
+          {project.team.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No named team members; capacity assumes {Math.max(1, project.metadata?.teamSize || 1)} people working {draft.hoursPerDay}h per working day.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {project.team.map(member => (
+                <MemberAvailabilityRow
+                  key={member}
+                  member={member}
+                  defaultHours={draft.hoursPerDay}
+                  availability={draft.availability?.find(entry => entry.member === member)}
+                  onChange={(changes) => updateMember(member, changes)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface MemberAvailabilityRowProps {
+  member: string;
+  defaultHours: number;
+  availability?: MemberAvailability;
+  onChange: (changes: Partial<MemberAvailability>) => void;
+}
+
+function MemberAvailabilityRow({ member, defaultHours, availability, onChange }: MemberAvailabilityRowProps) {
+  const [newDayOff, setNewDayOff] = useState('');
+  const daysOff = availability?.daysOff || [];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-2 border rounded-lg">
+      <span className="text-sm font-medium w-40 truncate" title={member}>{member}</span>
+      <Input
+        type="number"
+        min={0}
+        max={24}
+        step={0.5}
+        placeholder={`${defaultHours}`}
+        value={availability?.hoursPerDay ?? ''}
+        onChange={(e) => onChange({ hoursPerDay: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+        className="h-8 w-20"
+        aria-label={`Hours per day for ${member}`}
+      />
+      <span className="text-xs text-muted-foreground">h/day</span>
+      <Input
+        type="date"
+        value={newDayOff}
+        onChange={(e) => setNewDayOff(e.target.value)}
+        className="h-8 w-40"
+        aria-label={`Day off for ${member}`}
+      />
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={!newDayOff || daysOff.includes(newDayOff)}
+        onClick={() => {
+          onChange({ daysOff: [...daysOff, newDayOff].sort() });
+          setNewDayOff('');
+        }}
+      >
+        Day off
+      </Button>
+      {daysOff.map(day => (
+        <Badge key={day} variant="outline" className="gap-1">
+          {day}
+          <button
+            type="button"
+            onClick={() => onChange({ daysOff: daysOff.filter(d => d !== day) })}
+            className="hover:text-destructive"
+          >
+            <X className="h-3 w-3" />
+            <span className="sr-only">Remove day off {day}</span>
+          </button>
+        </Badge>
+      ))}
+    </div>
+  );
+}
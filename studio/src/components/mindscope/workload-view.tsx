@@ -0,0 +1,138 @@
+// src/components/mindscope/workload-view.tsx
+"use client";
+
+import React, { useMemo } from 'react';
+import type { Project, Microtask } from '@/lib/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Users, ArrowRight, AlertTriangle } from 'lucide-react';
+import {
+  applyRebalanceSuggestion,
+  buildWorkload,
+  suggestRebalancing,
+  type RebalanceSuggestion,
+  type WeekLoad
+} from '@/lib/services/workload';
+import { markUserEdited } from '@/lib/services/phase-regeneration';
+
+interface WorkloadViewProps {
+  project: Project;
+  onUpdateMicrotask: (phaseId: string, updatedMicrotask: Microtask) => void;
+}
+
+const formatWeek = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const loadClass = (week: WeekLoad) => {
+  if (week.isOverAllocated) return 'bg-red-50 text-red-700 font-medium';
+  if (week.capacityHours > 0 && week.assignedHours >= week.capacityHours * 0.8) return 'bg-yellow-50 text-yellow-700';
+  return '';
+};
+
+export function WorkloadView({ project, onUpdateMicrotask }: WorkloadViewProps) {
+  const report = useMemo(() => buildWorkload(project), [project]);
+  const suggestions = useMemo(() => suggestRebalancing(project), [project]);
+  const overAllocated = report.members.filter(member => member.overAllocatedWeeks > 0);
+
+  const applySuggestion = (suggestion: RebalanceSuggestion) => {
+    const task = project.phases
+      .find(phase => phase.id === suggestion.phaseId)
+      ?.microtasks.find(microtask => microtask.id === suggestion.taskId);
+    if (task) onUpdateMicrotask(suggestion.phaseId, applyRebalanceSuggestion(markUserEdited(task), suggestion));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Team Workload
+        </CardTitle>
+        <CardDescription>
+          Remaining hours assigned per week against each person's capacity on the working calendar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {overAllocated.length > 0 && (
+          <div className="flex items-center gap-2 text-sm text-red-600">
+            <AlertTriangle className="h-4 w-4" />
+            <span>Over-allocated: {overAllocated.map(member => member.member).join(', ')}</span>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Person</TableHead>
+                {report.weekStarts.map(weekStart => (
+                  <TableHead key={weekStart} className="text-center whitespace-nowrap">{formatWeek(weekStart)}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.members.map(member => (
+                <TableRow key={member.member}>
+                  <TableCell className="font-medium whitespace-nowrap">{member.member}</TableCell>
+                  {member.weeks.map(week => (
+                    <TableCell key={week.weekStart} className={`text-center text-xs whitespace-nowrap ${loadClass(week)}`}>
+                      {week.assignedHours}/{week.capacityHours}h
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+              {report.unassignedHours.some(hours => hours > 0) && (
+                <TableRow>
+                  <TableCell className="text-muted-foreground">Unassigned</TableCell>
+                  {report.unassignedHours.map((hours, index) => (
+                    <TableCell key={report.weekStarts[index]} className="text-center text-xs text-muted-foreground">
+                      {hours > 0 ? `${hours}h` : '—'}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              )}
+              <TableRow>
+                <TableCell className="font-semibold">
+                  Team{project.team.length === 0 && ` (${Math.max(1, project.metadata?.teamSize || 1)} people)`}
+                </TableCell>
+                {report.team.map(week => (
+                  <TableCell key={week.weekStart} className={`text-center text-xs font-semibold whitespace-nowrap ${loadClass(week)}`}>
+                    {week.assignedHours}/{week.capacityHours}h
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+
+        {project.team.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add people to the team and assign tasks to see individual workloads.</p>
+        ) : overAllocated.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Suggested rebalancing</h4>
+            {suggestions.length > 0 ? (
+              suggestions.map(suggestion => (
+                <div key={suggestion.taskId} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{suggestion.taskName}</p>
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      {suggestion.from} <ArrowRight className="h-3 w-3" /> {suggestion.to}
+                      <Badge variant="outline" className="ml-1 text-xs">{suggestion.hours}h</Badge>
+                    </p>
+                  </div>
+                  <Button size="sm" onClick={() => applySuggestion(suggestion)}>Apply</Button>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No unstarted task fits into anyone's free capacity; consider moving dates or adding people.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,81 +1,493 @@
-import type { Phase, Microtask } from './types';
+import type { TaskPriority, TaskComplexity } from './types';
+
+export interface ParsedSubtask {
+  name: string;
+  isCompleted: boolean;
+  estimatedTime?: number;
+}
 
 export interface ParsedMicrotask {
   name: string;
+  description?: string;
+  estimatedTime?: number; // most likely hours; a range such as "2-6h" also fills the bounds below
+  optimisticTime?: number;
+  pessimisticTime?: number;
+  priority?: TaskPriority;
+  complexity?: TaskComplexity;
+  tags: string[];
+  isCompleted: boolean;
+  subtasks: ParsedSubtask[];
 }
 
 export interface ParsedPhase {
   name: string;
+  description?: string;
   microtasks: ParsedMicrotask[];
 }
 
-export function parseAISuggestions(suggestions: string[]): ParsedPhase[] {
-  const parsedPhases: ParsedPhase[] = [];
-  let currentPhase: ParsedPhase | null = null;
-
-  // Regex for top-level phases (e.g., "1. Phase Name", "1) Phase Name", "* Phase Name", "- Phase Name")
-  // Captures the numbering/bullet and the phase name.
-  const phaseRegex = /^\s*(\d+[\.\)]\*?|\*[ \t]|\-[ \t])\s*(.+)/;
-
-  // Regex for microtasks.
-  // Matches:
-  // - At least two leading spaces (or a tab).
-  // - Optionally followed by numbering/bullet (e.g., "1.1.", "a)", "-", "*") and a space.
-  // - Captures the rest of the line as the microtask name.
-  const microtaskRegex = /^\s{2,}(?:(?:\d+\.\d+[\.\)]?|[a-zA-Z][\.\)]|\d+[\.\)]|\*|\-)\s+)?(.+)/;
-  // Alternative microtask regex for lines that start with a tab
-  const tabbedMicrotaskRegex = /^\t(?:(?:\d+\.\d+[\.\)]?|[a-zA-Z][\.\)]|\d+[\.\)]|\*|\-)\s+)?(.+)/;
-
-
-  for (const line of suggestions) {
-    const trimmedLine = line.trim();
-    if (!trimmedLine) continue; // Skip empty or whitespace-only lines
-
-    // Attempt to match as a phase first
-    // Phases are typically not heavily indented or less indented than their microtasks.
-    const phaseMatch = line.match(phaseRegex);
-    // Check if it's a phase: matches phaseRegex and is not significantly indented.
-    const isLikelyPhase = phaseMatch && !(line.startsWith("  ") || line.startsWith("\t\t") || line.startsWith("    "));
-
-
-    if (isLikelyPhase) {
-      // Safely access phaseMatch[2] because isLikelyPhase ensures phaseMatch is not null.
-      const phaseName = phaseMatch![2].trim(); 
-      if (phaseName) {
-        currentPhase = { name: phaseName, microtasks: [] };
-        parsedPhases.push(currentPhase);
-        continue; 
-      }
+// Tasks that arrive without any phase structure are collected here
+export const DEFAULT_IMPORT_PHASE = 'Imported Tasks';
+
+interface ItemMeta {
+  estimatedTime?: number;
+  optimisticTime?: number;
+  pessimisticTime?: number;
+  priority?: TaskPriority;
+  tags: string[];
+}
+
+interface ParsedItemText extends ItemMeta {
+  name: string;
+  description?: string;
+  isCompleted: boolean;
+}
+
+type PlanLine =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'item'; key: number[]; text: string; checked?: boolean }
+  | { kind: 'text'; indent: number; text: string };
+
+// "4h", "1.5 hours", "2-6h", "30 min", "2 days"; a day is a working day of 8 hours
+const AMOUNT = String.raw`(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?`;
+const UNIT = String.raw`(h(?:ours?|rs?)?|d(?:ays?)?|m(?:in(?:ute)?s?)?)`;
+const HOURS_PIECE = new RegExp(String.raw`^(?:~|≈|est(?:imate)?[.:]?\s*)?${AMOUNT}\s*${UNIT}\.?$`, 'i');
+const HOURS_LABELLED = new RegExp(String.raw`\b(?:est(?:imate)?|effort|time)[.:]?\s*~?${AMOUNT}\s*${UNIT}\b\.?`, 'i');
+const HOURS_TRAILING = new RegExp(String.raw`(?:^|[\s,;|–—-])~?${AMOUNT}\s*${UNIT}\.?\s*$`, 'i');
+const PRIORITY_PIECE = /^(?:priority[:\s]*)?(critical|urgent|high|medium|med|low)(?:[- ]priority)?$|^p([0-3])$/i;
+const PRIORITY_INLINE = /\bpriority[:=]\s*(critical|urgent|high|medium|med|low)\b|\b(critical|urgent|high|medium|low)[- ]priority\b/i;
+const TAGS_PIECE = /^tags?:\s*(.+)$/i;
+const TAGS_TRAILING = /(?:^|\s[-–—|,]?\s*)tags?:\s*([#\w\s,-]+)$/i;
+const HASHTAG = /(^|\s)#([a-z][\w-]*)/gi;
+const TRAILING_PIECE = /\s*[,;|]\s*([^,;|]+)$/;
+const TRAILING_SEPARATORS = /[\s,;:|–—-]+$/;
+const PHASE_PREFIX = /^(?:phase|stage|step|milestone|sprint|part)\s*\d+\s*[:.)–—-]\s*/i;
+
+const roundHours = (hours: number) => Math.max(Math.round(hours * 4) / 4, 0.25);
+
+function toHours(amount: string, unit: string): number {
+  const value = parseFloat(amount);
+  const u = unit.toLowerCase();
+  if (u.startsWith('d')) return value * 8;
+  if (u.startsWith('m')) return value / 60;
+  return value;
+}
+
+function toPriority(value: string): TaskPriority | undefined {
+  const v = value.toLowerCase();
+  if (['critical', 'urgent', 'p0'].includes(v)) return 'critical';
+  if (['high', 'p1'].includes(v)) return 'high';
+  if (['medium', 'med', 'p2'].includes(v)) return 'medium';
+  if (['low', 'p3'].includes(v)) return 'low';
+  return undefined;
+}
+
+function applyHours(meta: ItemMeta, match: RegExpMatchArray, offset: number) {
+  const [low, high, unit] = [match[offset], match[offset + 1], match[offset + 2]];
+  if (high) {
+    meta.optimisticTime = roundHours(toHours(low, unit));
+    meta.pessimisticTime = roundHours(toHours(high, unit));
+    meta.estimatedTime = roundHours((meta.optimisticTime + meta.pessimisticTime) / 2);
+  } else {
+    meta.estimatedTime = roundHours(toHours(low, unit));
+  }
+}
+
+const splitTags = (list: string) => list.split(/[\s,]+/).map(tag => tag.replace(/^#/, '').trim().toLowerCase()).filter(Boolean);
+
+// Reads one comma-separated piece of a bracket group such as "(4h, high priority, #auth)"
+function readMetaPiece(piece: string, meta: ItemMeta): boolean {
+  const hours = piece.match(HOURS_PIECE);
+  if (hours) {
+    applyHours(meta, hours, 1);
+    return true;
+  }
+  const priority = piece.match(PRIORITY_PIECE);
+  if (priority) {
+    meta.priority = toPriority(priority[1] || `p${priority[2]}`);
+    return true;
+  }
+  const tags = piece.match(TAGS_PIECE);
+  if (tags) {
+    meta.tags.push(...splitTags(tags[1]));
+    return true;
+  }
+  if (/^(#[a-z][\w-]*\s*)+$/i.test(piece)) {
+    meta.tags.push(...splitTags(piece));
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Pulls hours, priority, tags and completion out of one outline entry and splits the rest into
+ * a name and, after a bold lead-in or a dash, a description
+ */
+function parseItemText(raw: string, allowColonSplit: boolean): ParsedItemText {
+  const meta: ItemMeta = { tags: [] };
+  let text = raw.trim().replace(/\[([^\]]+)\]\([^)]*\)/g, '$1'); // markdown links keep their label
+
+  let isCompleted = false;
+  if (/^(?:✅|✔️?|☑️?)\s*/.test(text)) {
+    isCompleted = true;
+    text = text.replace(/^(?:✅|✔️?|☑️?)\s*/, '');
+  }
+  const struck = text.match(/^~~(.+)~~$/);
+  if (struck) {
+    isCompleted = true;
+    text = struck[1];
+  }
+
+  // Bracket groups made only of metadata disappear from the name
+  text = text.replace(/\s*[([]([^()[\]]+)[)\]]/g, (group, inner: string) => {
+    const pieces = inner.split(/[,;|]/).map(piece => piece.trim()).filter(Boolean);
+    const scratch: ItemMeta = { tags: [] };
+    if (pieces.length === 0 || !pieces.every(piece => readMetaPiece(piece, scratch))) return group;
+    Object.assign(meta, { ...scratch, tags: [...meta.tags, ...scratch.tags] });
+    return '';
+  });
+
+  const priority = text.match(PRIORITY_INLINE);
+  if (priority) {
+    meta.priority = toPriority(priority[1] || priority[2]);
+    text = text.replace(PRIORITY_INLINE, '');
+  }
+  const tagList = text.match(TAGS_TRAILING);
+  if (tagList) {
+    meta.tags.push(...splitTags(tagList[1]));
+    text = text.replace(TAGS_TRAILING, '');
+  }
+  text = text.replace(HASHTAG, (_match, lead: string, tag: string) => {
+    meta.tags.push(tag.toLowerCase());
+    return lead;
+  });
+  // Trailing pieces after a comma, semicolon or pipe, such as "Deploy | 3h | high | devops".
+  // In a pipe-separated entry a single bare word is read as a tag.
+  const pipeSeparated = text.includes('|');
+  text = text.replace(TRAILING_SEPARATORS, '');
+  let trailingPiece = text.match(TRAILING_PIECE);
+  while (trailingPiece) {
+    const piece = trailingPiece[1];
+    if (!readMetaPiece(piece, meta)) {
+      if (!pipeSeparated || !/^[a-z][\w-]*$/i.test(piece)) break;
+      meta.tags.push(piece.toLowerCase());
+    }
+    text = text.slice(0, trailingPiece.index).replace(TRAILING_SEPARATORS, '');
+    trailingPiece = text.match(TRAILING_PIECE);
+  }
+
+  if (meta.estimatedTime === undefined) {
+    const labelled = text.match(HOURS_LABELLED);
+    const trailing = labelled ? null : text.match(HOURS_TRAILING);
+    if (labelled) {
+      applyHours(meta, labelled, 1);
+      text = text.replace(HOURS_LABELLED, '');
+    } else if (trailing) {
+      applyHours(meta, trailing, 1);
+      text = text.replace(HOURS_TRAILING, '');
+    }
+  }
+
+  text = text.replace(/\s{2,}/g, ' ').replace(TRAILING_SEPARATORS, '').trim().replace(PHASE_PREFIX, '');
+
+  let name = text;
+  let description: string | undefined;
+  const bold = text.match(/^(?:\*\*|__)(.+?)(?:\*\*|__)\s*[:.–—-]?\s*(.*)$/);
+  if (bold) {
+    name = bold[1];
+    description = bold[2] || undefined;
+  } else {
+    const dash = text.match(/^(.+?)\s+[–—]\s+(.+)$/) || (allowColonSplit ? text.match(/^([^:]{3,60}):\s+(.+)$/) : null);
+    if (dash && dash[1].split(/\s+/).length <= 8) {
+      name = dash[1];
+      description = dash[2];
     }
+  }
 
-    // If it's not a phase, and a currentPhase context exists, try to parse as a microtask
-    if (currentPhase) {
-      // Check if the line is indented, indicating it could be a microtask
-      if (line.startsWith("  ") || line.startsWith("\t")) {
-        let microtaskName: string | null = null;
-        const microtaskMatch = line.match(microtaskRegex);
-        const tabbedMicrotaskMatch = line.match(tabbedMicrotaskRegex);
-
-        if (microtaskMatch && microtaskMatch[1]) {
-          microtaskName = microtaskMatch[1].trim();
-        } else if (tabbedMicrotaskMatch && tabbedMicrotaskMatch[1]) {
-          microtaskName = tabbedMicrotaskMatch[1].trim();
-        }
-        
-        if (microtaskName) {
-          currentPhase.microtasks.push({ name: microtaskName });
-          continue;
-        } else {
-          // Fallback for indented lines that don't fit the specific microtask regex pattern
-          // but are clearly part of the current phase due to indentation.
-          const fallbackMicrotaskName = line.trim();
-          if (fallbackMicrotaskName) {
-            currentPhase.microtasks.push({ name: fallbackMicrotaskName });
-            continue;
-          }
-        }
+  const clean = (value: string) => value.replace(/\*\*|__|`/g, '').replace(/[\s,;:|–—-]+$/, '').trim();
+  return {
+    ...meta,
+    tags: Array.from(new Set(meta.tags)),
+    name: clean(name).replace(PHASE_PREFIX, ''),
+    description: description ? clean(description) : undefined,
+    isCompleted,
+  };
+}
+
+function classifyLine(rawLine: string): PlanLine | null {
+  const line = rawLine.replace(/\t/g, '    ').replace(/\s+$/, '');
+  const indent = line.length - line.trimStart().length;
+  const body = line.trim();
+  if (!body || /^([-*_])(\s*\1){2,}$/.test(body) || body.startsWith('```')) return null;
+
+  const heading = indent < 4 ? body.match(/^(#{1,6})\s+(.+?)\s*#*$/) : null;
+  if (heading) return { kind: 'heading', level: heading[1].length, text: heading[2] };
+
+  const checkbox = body.match(/^[-*+]\s+\[([ xX])\]\s+(.+)$/);
+  if (checkbox) return { kind: 'item', key: [indent, 2, 1], text: checkbox[2], checked: checkbox[1] !== ' ' };
+
+  const bullet = body.match(/^[-*+•◦▪]\s+(.+)$/);
+  const numbered = body.match(/^(\d+)[.)]\s+(.+)$/) || body.match(/^(\d+(?:\.\d+)+)[.)]?\s+(.+)$/);
+  const lettered = body.match(/^([a-zA-Z])[.)]\s+(.+)$/);
+  const item = numbered
+    ? { key: [indent, 0, numbered[1].split('.').length], text: numbered[2] }
+    : lettered
+      ? { key: [indent, 1, 1], text: lettered[2] }
+      : bullet
+        ? { key: [indent, 2, 1], text: bullet[1] }
+        : null;
+  if (item) {
+    const nestedCheckbox = item.text.match(/^\[([ xX])\]\s+(.+)$/);
+    return nestedCheckbox
+      ? { kind: 'item', key: item.key, text: nestedCheckbox[2], checked: nestedCheckbox[1] !== ' ' }
+      : { kind: 'item', ...item };
+  }
+
+  // A bold line on its own reads as a heading below any markdown heading
+  const boldHeading = indent === 0 ? body.match(/^(?:\*\*|__)([^*_]+)(?:\*\*|__):?$/) : null;
+  if (boldHeading) return { kind: 'heading', level: 7, text: boldHeading[1] };
+
+  return { kind: 'text', indent, text: body };
+}
+
+const compareKeys = (a: number[], b: number[]) => {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+};
+
+// Nesting depth of every item line, from indentation first and then marker style and numbering
+function itemDepths(lines: PlanLine[]): Map<number, number> {
+  const depths = new Map<number, number>();
+  let stack: number[][] = [];
+  lines.forEach((line, index) => {
+    if (line.kind === 'heading') stack = [];
+    if (line.kind !== 'item') return;
+    while (stack.length > 0 && compareKeys(stack[stack.length - 1], line.key) >= 0) stack.pop();
+    depths.set(index, stack.length);
+    stack.push(line.key);
+  });
+  return depths;
+}
+
+function toMicrotask(text: string, checked?: boolean): ParsedMicrotask {
+  const { name, description, isCompleted, ...meta } = parseItemText(text, true);
+  const microtask: ParsedMicrotask = { name, tags: meta.tags, isCompleted: Boolean(checked) || isCompleted, subtasks: [] };
+  if (description) microtask.description = description;
+  if (meta.estimatedTime !== undefined) microtask.estimatedTime = meta.estimatedTime;
+  if (meta.optimisticTime !== undefined) microtask.optimisticTime = meta.optimisticTime;
+  if (meta.pessimisticTime !== undefined) microtask.pessimisticTime = meta.pessimisticTime;
+  if (meta.priority) microtask.priority = meta.priority;
+  return microtask;
+}
+
+function toSubtask(text: string, checked?: boolean): ParsedSubtask {
+  const parsed = parseItemText(text, false);
+  const subtask: ParsedSubtask = { name: parsed.name, isCompleted: Boolean(checked) || parsed.isCompleted };
+  if (parsed.estimatedTime !== undefined) subtask.estimatedTime = parsed.estimatedTime;
+  return subtask;
+}
+
+function toPhase(text: string): ParsedPhase {
+  const { name, description } = parseItemText(text, false);
+  return description ? { name, description, microtasks: [] } : { name, microtasks: [] };
+}
+
+const appendText = (target: { description?: string }, text: string) => {
+  target.description = target.description ? `${target.description} ${text}` : text;
+};
+
+/**
+ * Builds phases from an outline. With headings, the highest heading level that repeats marks
+ * phases, deeper headings and top-level list items are tasks, and anything nested below a task is
+ * a subtask. Without headings, top-level items that have children are phases; a flat list
+ * becomes tasks of one phase.
+ */
+function parseOutline(text: string): ParsedPhase[] {
+  const lines = text.split(/\r\n|\r|\n/).map(classifyLine).filter((line): line is PlanLine => line !== null);
+
+  // An unindented line introducing a list ("Backend work:") acts as a heading; a sentence right
+  // under a heading stays that heading's description
+  lines.forEach((line, index) => {
+    const [previous, next] = [lines[index - 1], lines[index + 1]];
+    if (line.kind === 'text' && line.indent === 0 && line.text.split(/\s+/).length <= 12
+      && (line.text.endsWith(':') || (next?.kind === 'item' && previous?.kind !== 'heading' && !/[.!?]$/.test(line.text)))) {
+      lines[index] = { kind: 'heading', level: 7, text: line.text.replace(/:$/, '') };
+    }
+  });
+
+  // A single top heading above other headings is the document title
+  const headingLevels = lines.flatMap(line => (line.kind === 'heading' ? [line.level] : []));
+  const topLevel = Math.min(...headingLevels);
+  if (headingLevels.filter(level => level === topLevel).length === 1 && headingLevels.length > 1) {
+    lines.splice(lines.findIndex(line => line.kind === 'heading' && line.level === topLevel), 1);
+  }
+  const phaseLevel = Math.min(...lines.flatMap(line => (line.kind === 'heading' ? [line.level] : [])));
+  const hasHeadings = Number.isFinite(phaseLevel);
+
+  const depths = itemDepths(lines);
+  const topItems = lines.flatMap((line, index) => (line.kind === 'item' && depths.get(index) === 0 ? [index] : []));
+  const parentItems = topItems.filter(index => depths.get(index + 1) === 1
+    || (lines[index + 1]?.kind === 'text' && depths.get(index + 2) === 1));
+  // Without headings, top-level items are phases when most of them have items nested below
+  const topItemsArePhases = !hasHeadings && parentItems.length > 0 && parentItems.length * 2 >= topItems.length;
+
+  const phases: ParsedPhase[] = [];
+  let phase: ParsedPhase | null = null;
+  let task: ParsedMicrotask | null = null;
+  let taskFromHeading = false;
+  const currentPhase = () => {
+    if (!phase) {
+      phase = { name: DEFAULT_IMPORT_PHASE, microtasks: [] };
+      phases.push(phase);
+    }
+    return phase;
+  };
+  const startTask = (text: string, checked?: boolean) => {
+    task = toMicrotask(text, checked);
+    currentPhase().microtasks.push(task);
+  };
+
+  lines.forEach((line, index) => {
+    if (line.kind === 'heading') {
+      if (line.level === phaseLevel) {
+        phase = toPhase(line.text);
+        phases.push(phase);
+        task = null;
+      } else {
+        startTask(line.text);
       }
+      taskFromHeading = line.level !== phaseLevel;
+      return;
+    }
+
+    if (line.kind === 'text') {
+      if (task) appendText(task, parseItemText(line.text, false).name);
+      else if (phase) appendText(phase, parseItemText(line.text, false).name);
+      return;
+    }
+
+    const depth = depths.get(index) || 0;
+    const taskDepth = topItemsArePhases ? 1 : 0;
+    if (topItemsArePhases && depth === 0) {
+      phase = toPhase(line.text);
+      phases.push(phase);
+      task = null;
+    } else if (!taskFromHeading && depth === taskDepth) {
+      startTask(line.text, line.checked);
+    } else if (task) {
+      (task as ParsedMicrotask).subtasks.push(toSubtask(line.text, line.checked));
+    } else {
+      startTask(line.text, line.checked);
+    }
+  });
+
+  return phases;
+}
+
+const asString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+const firstString = (record: Record<string, unknown>, keys: string[]) =>
+  keys.map(key => asString(record[key])).find(Boolean) || '';
+
+function jsonHours(value: unknown): { estimatedTime?: number; optimisticTime?: number; pessimisticTime?: number } {
+  if (typeof value === 'number' && value > 0) return { estimatedTime: roundHours(value) };
+  if (typeof value !== 'string') return {};
+  const meta: ItemMeta = { tags: [] };
+  const withUnit = /[a-z]$/i.test(value.trim()) ? value.trim() : `${value.trim()}h`;
+  return readMetaPiece(withUnit, meta) ? meta : {};
+}
+
+function jsonTask(value: unknown): ParsedMicrotask | null {
+  if (typeof value === 'string') return value.trim() ? toMicrotask(value) : null;
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  const name = firstString(record, ['name', 'title', 'task', 'summary']);
+  if (!name) return null;
+
+  const microtask = toMicrotask(name, Boolean(record.isCompleted || record.completed || record.done));
+  const description = firstString(record, ['description', 'details', 'notes']);
+  if (description) microtask.description = description;
+  const hours = jsonHours(record.estimatedTime ?? record.estimatedHours ?? record.hours ?? record.estimate);
+  Object.assign(microtask, hours);
+  const optimistic = jsonHours(record.optimisticTime).estimatedTime;
+  const pessimistic = jsonHours(record.pessimisticTime).estimatedTime;
+  if (optimistic !== undefined) microtask.optimisticTime = optimistic;
+  if (pessimistic !== undefined) microtask.pessimisticTime = pessimistic;
+  const priority = toPriority(asString(record.priority));
+  if (priority) microtask.priority = priority;
+  const complexity = asString(record.complexity).toLowerCase();
+  if (['simple', 'moderate', 'complex', 'expert'].includes(complexity)) microtask.complexity = complexity as TaskComplexity;
+  const tags = Array.isArray(record.tags) ? record.tags.map(asString).join(',') : asString(record.tags);
+  if (tags) microtask.tags = Array.from(new Set([...microtask.tags, ...splitTags(tags)]));
+
+  const steps = [record.subtasks, record.steps, record.checklist].find(Array.isArray) as unknown[] | undefined;
+  microtask.subtasks = (steps || []).flatMap(step => {
+    const parsed = jsonTask(step);
+    if (!parsed) return [];
+    const subtask: ParsedSubtask = { name: parsed.name, isCompleted: parsed.isCompleted };
+    if (parsed.estimatedTime !== undefined) subtask.estimatedTime = parsed.estimatedTime;
+    return [subtask];
+  });
+  return microtask;
+}
+
+const taskListOf = (record: Record<string, unknown>) =>
+  [record.microtasks, record.tasks, record.items].find(Array.isArray) as unknown[] | undefined;
+
+function jsonPhases(value: unknown): ParsedPhase[] {
+  if (Array.isArray(value)) {
+    const looksLikePhases = value.some(entry => entry && typeof entry === 'object' && taskListOf(entry as Record<string, unknown>));
+    if (!looksLikePhases) {
+      const microtasks = value.map(jsonTask).filter((task): task is ParsedMicrotask => task !== null);
+      return microtasks.length > 0 ? [{ name: DEFAULT_IMPORT_PHASE, microtasks }] : [];
     }
+    return value.flatMap(entry => {
+      if (!entry || typeof entry !== 'object') return [];
+      const record = entry as Record<string, unknown>;
+      const phase = toPhase(firstString(record, ['name', 'title', 'phase']) || DEFAULT_IMPORT_PHASE);
+      const description = firstString(record, ['description', 'summary']);
+      if (description) phase.description = description;
+      phase.microtasks = (taskListOf(record) || []).map(jsonTask).filter((task): task is ParsedMicrotask => task !== null);
+      return [phase];
+    });
+  }
+  if (!value || typeof value !== 'object') return [];
+  const record = value as Record<string, unknown>;
+  if (Array.isArray(record.phases)) return jsonPhases(record.phases);
+  if (record.project && typeof record.project === 'object') return jsonPhases(record.project);
+  const tasks = taskListOf(record);
+  return tasks ? jsonPhases(tasks) : [];
+}
+
+function parseJson(text: string): ParsedPhase[] | null {
+  const fenced = text.match(/^```(?:json)?\s*\n([\s\S]*?)\n```$/i);
+  const body = (fenced ? fenced[1] : text).trim();
+  if (!/^[[{]/.test(body)) return null;
+  try {
+    return jsonPhases(JSON.parse(body));
+  } catch {
+    return null;
   }
-  return parsedPhases;
-}
\ No newline at end of file
+}
+
+/**
+ * Parses a pasted plan into phases and microtasks. Accepts JSON (a phases array, `{ phases }`,
+ * `{ project: { phases } }` or a flat task list), markdown headings, nested bullet lists,
+ * GitHub task lists and numbered outlines, and reads hours like "(4h)" or "2-6h", priorities
+ * like "high priority" or "[P1]" and #tags from each entry. Phases without tasks are dropped.
+ */
+export function parsePlan(text: string): ParsedPhase[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  const phases = parseJson(trimmed) ?? parseOutline(trimmed);
+  return phases
+    .map(phase => ({ ...phase, microtasks: phase.microtasks.filter(task => task.name) }))
+    .filter(phase => phase.name && phase.microtasks.length > 0);
+}
+
+/**
+ * Reads the numbered phase and indented task lines older AI answers used
+ */
+export function parseAISuggestions(suggestions: string[]): ParsedPhase[] {
+  return parsePlan(suggestions.join('\n'));
+}
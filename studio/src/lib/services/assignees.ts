@@ -0,0 +1,74 @@
+// src/lib/services/assignees.ts
+import type { Project, Microtask } from '@/lib/types';
+
+// Filter values besides a team member's name
+export const ALL_ASSIGNEES = '__all__';
+export const UNASSIGNED = '__unassigned__';
+
+export interface AssigneeWorkload {
+  member: string; // team member, or UNASSIGNED
+  openTasks: number;
+  openHours: number;
+}
+
+/**
+ * True when a task passes a TaskList person filter: ALL_ASSIGNEES, UNASSIGNED or a member name
+ */
+export function matchesAssigneeFilter(task: Microtask, filter: string): boolean {
+  if (filter === ALL_ASSIGNEES) return true;
+  const assignees = task.assignees || [];
+  return filter === UNASSIGNED ? assignees.length === 0 : assignees.includes(filter);
+}
+
+/**
+ * Open tasks and estimated hours per team member, plus an UNASSIGNED row when anything is unassigned.
+ * A task shared by several people splits its hours evenly so the rows add up to the open total.
+ * People assigned but no longer on the team still get a row.
+ */
+export function getOpenWorkloadByAssignee(project: Project): AssigneeWorkload[] {
+  const workload = new Map<string, AssigneeWorkload>(
+    project.team.map(member => [member, { member, openTasks: 0, openHours: 0 }])
+  );
+  const addTo = (member: string, hours: number) => {
+    const entry = workload.get(member) || { member, openTasks: 0, openHours: 0 };
+    workload.set(member, { ...entry, openTasks: entry.openTasks + 1, openHours: entry.openHours + hours });
+  };
+
+  project.phases
+    .flatMap(phase => phase.microtasks)
+    .filter(task => !task.isCompleted)
+    .forEach(task => {
+      const assignees = task.assignees || [];
+      if (assignees.length === 0) {
+        addTo(UNASSIGNED, task.estimatedTime);
+      } else {
+        assignees.forEach(member => addTo(member, task.estimatedTime / assignees.length));
+      }
+    });
+
+  return Array.from(workload.values()).map(entry => ({
+    ...entry,
+    openHours: Math.round(entry.openHours * 10) / 10
+  }));
+}
+
+/**
+ * Removes people who left the team from every task's assignees
+ */
+export function removeStaleAssignees(project: Project): Project {
+  return {
+    ...project,
+    phases: project.phases.map(phase => ({
+      ...phase,
+      microtasks: phase.microtasks.map(task => {
+        if (!task.assignees) return task;
+        const assignees = task.assignees.filter(member => project.team.includes(member));
+        if (assignees.length === task.assignees.length) return task;
+        const updatedTask: Microtask = { ...task, assignees };
+        // Firebase rejects undefined, so drop the field instead of storing an empty list
+        if (assignees.length === 0) delete updatedTask.assignees;
+        return updatedTask;
+      })
+    }))
+  };
+}
@@ -0,0 +1,77 @@
+// src/lib/services/board.ts
+import type { Project, Microtask, BoardColumn } from '@/lib/types';
+import { stopTimer } from '@/lib/services/time-tracking';
+
+export const DEFAULT_BOARD_COLUMNS: BoardColumn[] = [
+  { id: 'backlog', name: 'Backlog', isDone: false },
+  { id: 'in-progress', name: 'In Progress', isDone: false },
+  { id: 'review', name: 'Review', isDone: false },
+  { id: 'done', name: 'Done', isDone: true }
+];
+
+/**
+ * Returns the project's board columns, falling back to the default workflow
+ */
+export function getBoardColumns(project: Project): BoardColumn[] {
+  return project.boardColumns && project.boardColumns.length > 0
+    ? project.boardColumns
+    : DEFAULT_BOARD_COLUMNS;
+}
+
+/**
+ * Resolves the column a task belongs to.
+ * isCompleted wins over a stale status so the board always agrees with progress:
+ * completed tasks never sit in an open column and open tasks never sit in a done column.
+ */
+export function getTaskColumn(task: Microtask, columns: BoardColumn[]): BoardColumn {
+  const firstOpen = columns.find(column => !column.isDone) || columns[0];
+  const firstDone = columns.find(column => column.isDone) || columns[columns.length - 1];
+  const current = columns.find(column => column.id === task.status);
+
+  if (task.isCompleted) {
+    return current && current.isDone ? current : firstDone;
+  }
+  return current && !current.isDone ? current : firstOpen;
+}
+
+/**
+ * Marks a task complete or incomplete and stamps completedAt.
+ * Completing a task stops its running timer; actualTime only ever comes from tracked time.
+ */
+export function applyTaskCompletion(task: Microtask, isCompleted: boolean): Microtask {
+  const updatedMicrotask: Microtask = {
+    ...(isCompleted ? stopTimer(task) : task),
+    isCompleted,
+    completedAt: isCompleted ? (task.isCompleted && task.completedAt ? task.completedAt : Date.now()) : undefined
+  };
+
+  // Remove completedAt if task is being marked as incomplete
+  if (!isCompleted) {
+    delete updatedMicrotask.completedAt;
+    // Older tasks had actualTime copied from the estimate on completion; drop it when nothing was tracked
+    if (!task.timeLogs?.length && task.actualTime === task.estimatedTime) {
+      delete updatedMicrotask.actualTime;
+    }
+  }
+
+  return updatedMicrotask;
+}
+
+/**
+ * Moves a task to a board column, keeping isCompleted in sync with the column's done flag
+ */
+export function moveTaskToColumn(task: Microtask, column: BoardColumn): Microtask {
+  const moved = task.isCompleted === column.isDone ? { ...task } : applyTaskCompletion(task, column.isDone);
+  return { ...moved, status: column.id };
+}
+
+/**
+ * Checks a column configuration before it is saved
+ */
+export function validateBoardColumns(columns: BoardColumn[]): string | null {
+  if (columns.length < 2) return 'A board needs at least two columns';
+  if (columns.some(column => !column.name.trim())) return 'Every column needs a name';
+  if (!columns.some(column => column.isDone)) return 'Mark at least one column as done';
+  if (!columns.some(column => !column.isDone)) return 'Keep at least one column for open work';
+  return null;
+}
@@ -0,0 +1,70 @@
+// src/lib/services/burn-charts.ts
+import type { Project } from '@/lib/types';
+import { DAY_MS, addCalendarDays, countWorkingDays, getWorkingCalendar, startOfDay } from '@/lib/services/working-calendar';
+
+export interface BurnChartPoint {
+  date: number; // start of day timestamp
+  remainingHours: number | null; // null for future days
+  completedHours: number | null;
+  scopeHours: number;
+  idealRemainingHours?: number; // only when the project has a timeline
+}
+
+// Keep charts readable for long-running projects
+const MAX_POINTS = 90;
+
+/**
+ * Builds daily burndown/burnup data from microtask completion history.
+ * Hours are estimated hours, so a completed task burns exactly its estimate.
+ * Scope is the current scope; task creation history is not recorded.
+ * The ideal line only burns on working days of the project calendar.
+ */
+export function buildBurnChartData(project: Project, now: number = Date.now()): BurnChartPoint[] {
+  const allTasks = project.phases.flatMap(phase => phase.microtasks);
+  const scopeHours = allTasks.reduce((sum, task) => sum + task.estimatedTime, 0);
+  const completions = allTasks
+    .filter(task => task.isCompleted && task.completedAt)
+    .map(task => ({ at: task.completedAt!, hours: task.estimatedTime }));
+
+  const earliestCompletion = completions.length > 0 ? Math.min(...completions.map(c => c.at)) : now;
+  const start = startOfDay(Math.min(project.createdAt || now, earliestCompletion));
+  const timelineDays = project.metadata?.timeline ? project.metadata.timeline * 7 : null;
+  const idealEnd = timelineDays ? addCalendarDays(start, timelineDays) : null;
+  const calendar = getWorkingCalendar(project);
+  const idealWorkingDays = idealEnd ? Math.max(1, countWorkingDays(calendar, start, idealEnd)) : 0;
+  const end = startOfDay(Math.max(now, idealEnd ?? now));
+
+  const totalDays = Math.round((end - start) / DAY_MS) + 1;
+  const step = Math.max(1, Math.ceil(totalDays / MAX_POINTS));
+
+  const points: BurnChartPoint[] = [];
+  for (let day = 0; day < totalDays; day += step) {
+    points.push(buildPoint(addCalendarDays(start, day)));
+  }
+  if (points[points.length - 1]?.date !== end) {
+    points.push(buildPoint(end));
+  }
+  return points;
+
+  function buildPoint(date: number): BurnChartPoint {
+    const dayEnd = addCalendarDays(date, 1);
+    const isFuture = date > now;
+    const completedHours = completions
+      .filter(completion => completion.at < dayEnd)
+      .reduce((sum, completion) => sum + completion.hours, 0);
+
+    const point: BurnChartPoint = {
+      date,
+      // Actual lines stop at today; only the ideal line extends into the future
+      remainingHours: isFuture ? null : scopeHours - completedHours,
+      completedHours: isFuture ? null : completedHours,
+      scopeHours
+    };
+
+    if (idealEnd) {
+      const elapsedWorkingDays = countWorkingDays(calendar, start, Math.min(date, idealEnd));
+      point.idealRemainingHours = Math.max(0, scopeHours * (1 - elapsedWorkingDays / idealWorkingDays));
+    }
+    return point;
+  }
+}
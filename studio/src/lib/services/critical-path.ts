@@ -0,0 +1,163 @@
+// src/lib/services/critical-path.ts
+import type { Phase, Microtask, TaskDependency } from '@/lib/types';
+
+export interface TaskSchedule {
+  taskId: string;
+  duration: number; // in hours
+  earliestStart: number; // hours from project start
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+  slack: number;
+  isCritical: boolean;
+}
+
+export interface CriticalPathAnalysis {
+  schedule: Record<string, TaskSchedule>;
+  criticalPath: string[]; // microtask ids, in execution order
+  projectDuration: number; // in hours
+  unscheduledTaskIds: string[]; // tasks caught in a dependency cycle
+}
+
+// Floating point tolerance when comparing hour totals
+const EPSILON = 1e-6;
+
+/**
+ * Returns true when a dependency forces its task to wait for the task it points at.
+ * 'parallel' dependencies only document a relationship and never constrain the schedule.
+ */
+export function isSchedulingDependency(dependency: TaskDependency): boolean {
+  return dependency.type === 'blocks' || dependency.type === 'prerequisite';
+}
+
+/**
+ * Builds the predecessor list for every microtask, ignoring self references,
+ * references to tasks that no longer exist and duplicate edges
+ */
+export function buildPredecessorMap(tasks: Microtask[]): Map<string, string[]> {
+  const taskIds = new Set(tasks.map(task => task.id));
+  const predecessors = new Map<string, string[]>();
+
+  tasks.forEach(task => {
+    const taskPredecessors: string[] = [];
+    (task.dependencies || []).forEach(dep => {
+      if (!isSchedulingDependency(dep)) return;
+      if (dep.dependsOn === task.id || !taskIds.has(dep.dependsOn)) return;
+      if (!taskPredecessors.includes(dep.dependsOn)) {
+        taskPredecessors.push(dep.dependsOn);
+      }
+    });
+    predecessors.set(task.id, taskPredecessors);
+  });
+
+  return predecessors;
+}
+
+/**
+ * Runs the critical path method over all microtasks of the given phases.
+ * Durations come from estimatedTime, so the result is fully deterministic for a given project.
+ */
+export function calculateCriticalPath(phases: Phase[]): CriticalPathAnalysis {
+  const tasks = phases.flatMap(phase => phase.microtasks || []);
+  const predecessors = buildPredecessorMap(tasks);
+  const successors = new Map<string, string[]>(tasks.map(task => [task.id, []]));
+  const inDegree = new Map<string, number>();
+
+  tasks.forEach(task => {
+    const taskPredecessors = predecessors.get(task.id)!;
+    inDegree.set(task.id, taskPredecessors.length);
+    taskPredecessors.forEach(predecessorId => successors.get(predecessorId)!.push(task.id));
+  });
+
+  // Topological order (Kahn), keeping project order for ties so results stay stable
+  const order: string[] = [];
+  const queue = tasks.filter(task => inDegree.get(task.id) === 0).map(task => task.id);
+  while (queue.length > 0) {
+    const taskId = queue.shift()!;
+    order.push(taskId);
+    successors.get(taskId)!.forEach(successorId => {
+      const remaining = inDegree.get(successorId)! - 1;
+      inDegree.set(successorId, remaining);
+      if (remaining === 0) queue.push(successorId);
+    });
+  }
+
+  const scheduled = new Set(order);
+  const unscheduledTaskIds = tasks.filter(task => !scheduled.has(task.id)).map(task => task.id);
+  const durations = new Map(tasks.map(task => [task.id, Math.max(0, task.estimatedTime || 0)]));
+
+  // Forward pass
+  const earliestStart = new Map<string, number>();
+  const earliestFinish = new Map<string, number>();
+  order.forEach(taskId => {
+    const start = predecessors.get(taskId)!
+      .reduce((max, predecessorId) => Math.max(max, earliestFinish.get(predecessorId) ?? 0), 0);
+    earliestStart.set(taskId, start);
+    earliestFinish.set(taskId, start + durations.get(taskId)!);
+  });
+
+  const projectDuration = order.reduce((max, taskId) => Math.max(max, earliestFinish.get(taskId)!), 0);
+
+  // Backward pass
+  const latestStart = new Map<string, number>();
+  const latestFinish = new Map<string, number>();
+  [...order].reverse().forEach(taskId => {
+    const finish = successors.get(taskId)!
+      .filter(successorId => scheduled.has(successorId))
+      .reduce((min, successorId) => Math.min(min, latestStart.get(successorId)!), projectDuration);
+    latestFinish.set(taskId, finish);
+    latestStart.set(taskId, finish - durations.get(taskId)!);
+  });
+
+  const schedule: Record<string, TaskSchedule> = {};
+  order.forEach(taskId => {
+    const slack = latestStart.get(taskId)! - earliestStart.get(taskId)!;
+    schedule[taskId] = {
+      taskId,
+      duration: durations.get(taskId)!,
+      earliestStart: earliestStart.get(taskId)!,
+      earliestFinish: earliestFinish.get(taskId)!,
+      latestStart: latestStart.get(taskId)!,
+      latestFinish: latestFinish.get(taskId)!,
+      slack: Math.abs(slack) < EPSILON ? 0 : slack,
+      // A project with no estimated hours has no meaningful critical path
+      isCritical: projectDuration > 0 && Math.abs(slack) < EPSILON
+    };
+  });
+
+  return {
+    schedule,
+    criticalPath: traceCriticalChain(order, schedule, predecessors, projectDuration),
+    projectDuration,
+    unscheduledTaskIds
+  };
+}
+
+/**
+ * Walks back from the last critical task to produce a single chain of critical tasks.
+ * When several critical chains exist, the one appearing first in the project wins.
+ */
+function traceCriticalChain(
+  order: string[],
+  schedule: Record<string, TaskSchedule>,
+  predecessors: Map<string, string[]>,
+  projectDuration: number
+): string[] {
+  if (projectDuration <= 0) return [];
+
+  const isChainEnd = (taskId: string) =>
+    schedule[taskId].isCritical && Math.abs(schedule[taskId].earliestFinish - projectDuration) < EPSILON;
+  let currentId = order.find(isChainEnd);
+  const chain: string[] = [];
+
+  while (currentId) {
+    chain.unshift(currentId);
+    const current = schedule[currentId];
+    currentId = predecessors.get(currentId)!.find(predecessorId => {
+      const predecessor = schedule[predecessorId];
+      return predecessor.isCritical && Math.abs(predecessor.earliestFinish - current.earliestStart) < EPSILON;
+    });
+  }
+
+  return chain;
+}
@@ -0,0 +1,168 @@
+// src/lib/services/dependency-validator.ts
+import type { Phase, Microtask, TaskDependency } from '@/lib/types';
+import { isSchedulingDependency } from '@/lib/services/critical-path';
+
+export type DependencyIssueKind = 'self-reference' | 'dangling' | 'cycle';
+export type DependencyRepairAction = 'drop' | 'repoint' | 'parallel';
+
+export interface DependencyIssue {
+  kind: DependencyIssueKind;
+  taskId: string; // task owning the offending dependency
+  taskName: string;
+  dependencyId: string;
+  dependsOn: string;
+  involvedTaskIds: string[]; // every task taking part in the problem, e.g. all cycle members
+  message: string;
+  repairActions: DependencyRepairAction[];
+}
+
+/**
+ * Checks every microtask dependency for self references, references to tasks that
+ * no longer exist and cycles among blocking/prerequisite dependencies.
+ * Each cycle is reported once, on the dependency that closes it.
+ */
+export function validateDependencies(phases: Phase[]): DependencyIssue[] {
+  const tasks = phases.flatMap(phase => phase.microtasks || []);
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+  const issues: DependencyIssue[] = [];
+
+  tasks.forEach(task => {
+    (task.dependencies || []).forEach(dep => {
+      if (dep.dependsOn === task.id) {
+        issues.push({
+          kind: 'self-reference',
+          taskId: task.id,
+          taskName: task.name,
+          dependencyId: dep.id,
+          dependsOn: dep.dependsOn,
+          involvedTaskIds: [task.id],
+          message: `"${task.name}" depends on itself`,
+          repairActions: ['drop', 'repoint']
+        });
+      } else if (!tasksById.has(dep.dependsOn)) {
+        issues.push({
+          kind: 'dangling',
+          taskId: task.id,
+          taskName: task.name,
+          dependencyId: dep.id,
+          dependsOn: dep.dependsOn,
+          involvedTaskIds: [task.id, dep.dependsOn],
+          message: `"${task.name}" depends on a task that no longer exists`,
+          repairActions: ['drop', 'repoint']
+        });
+      }
+    });
+  });
+
+  findCycles(tasks, tasksById).forEach(({ closingTask, closingDependency, cycleTaskIds }) => {
+    const cycleNames = cycleTaskIds.map(id => tasksById.get(id)!.name);
+    issues.push({
+      kind: 'cycle',
+      taskId: closingTask.id,
+      taskName: closingTask.name,
+      dependencyId: closingDependency.id,
+      dependsOn: closingDependency.dependsOn,
+      involvedTaskIds: cycleTaskIds,
+      message: `Circular dependency: ${[...cycleNames, cycleNames[0]].map(name => `"${name}"`).join(' → ')}`,
+      repairActions: ['drop', 'repoint', 'parallel']
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Returns the issues that involve the given task, either as owner of the bad
+ * dependency or as a participant (cycle member, deleted target)
+ */
+export function getIssuesForTask(issues: DependencyIssue[], taskId: string): DependencyIssue[] {
+  return issues.filter(issue => issue.involvedTaskIds.includes(taskId));
+}
+
+/**
+ * Returns the issues in `after` that were not already in `before`, so an edit only
+ * reports the problems it caused. Issues match on their kind, offending dependency and its target.
+ */
+export function getIntroducedIssues(before: DependencyIssue[], after: DependencyIssue[]): DependencyIssue[] {
+  const key = (issue: DependencyIssue) => `${issue.kind}:${issue.dependencyId}:${issue.dependsOn}`;
+  const existing = new Set(before.map(key));
+  return after.filter(issue => !existing.has(key(issue)));
+}
+
+/**
+ * Applies a repair to the dependency named by the issue and returns the updated phases.
+ * 'repoint' requires a target task id; the other actions ignore it.
+ */
+export function repairDependencyIssue(
+  phases: Phase[],
+  issue: DependencyIssue,
+  action: DependencyRepairAction,
+  newDependsOn?: string
+): Phase[] {
+  if (action === 'repoint' && (!newDependsOn || newDependsOn === issue.taskId)) {
+    throw new Error('A different target task is required to re-point a dependency');
+  }
+
+  const repairTask = (task: Microtask): Microtask => {
+    if (task.id !== issue.taskId) return task;
+
+    const dependencies = action === 'drop'
+      ? task.dependencies.filter(dep => dep.id !== issue.dependencyId)
+      : task.dependencies.map((dep): TaskDependency => {
+          if (dep.id !== issue.dependencyId) return dep;
+          return action === 'parallel'
+            ? { ...dep, type: 'parallel' }
+            : { ...dep, dependsOn: newDependsOn! };
+        });
+
+    return { ...task, dependencies };
+  };
+
+  return phases.map(phase => ({
+    ...phase,
+    microtasks: (phase.microtasks || []).map(repairTask)
+  }));
+}
+
+/**
+ * Depth-first search over scheduling dependencies (task → task it depends on).
+ * A back edge to a task on the current stack closes a cycle.
+ */
+function findCycles(
+  tasks: Microtask[],
+  tasksById: Map<string, Microtask>
+): Array<{ closingTask: Microtask; closingDependency: TaskDependency; cycleTaskIds: string[] }> {
+  const cycles: Array<{ closingTask: Microtask; closingDependency: TaskDependency; cycleTaskIds: string[] }> = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (task: Microtask) => {
+    state.set(task.id, 'visiting');
+    stack.push(task.id);
+
+    (task.dependencies || []).forEach(dep => {
+      if (!isSchedulingDependency(dep) || dep.dependsOn === task.id) return;
+      const target = tasksById.get(dep.dependsOn);
+      if (!target) return;
+
+      if (state.get(target.id) === 'visiting') {
+        cycles.push({
+          closingTask: task,
+          closingDependency: dep,
+          cycleTaskIds: stack.slice(stack.indexOf(target.id))
+        });
+      } else if (!state.has(target.id)) {
+        visit(target);
+      }
+    });
+
+    stack.pop();
+    state.set(task.id, 'done');
+  };
+
+  tasks.forEach(task => {
+    if (!state.has(task.id)) visit(task);
+  });
+
+  return cycles;
+}
@@ -0,0 +1,144 @@
+// src/lib/services/earned-value.ts
+import type { Project, ProjectMetadata, Microtask } from '@/lib/types';
+import { buildProjectTimeline } from '@/lib/services/timeline';
+import { countWorkingDays, getWorkingCalendar } from '@/lib/services/working-calendar';
+import { getTimeLogHours } from '@/lib/services/time-tracking';
+import { getTaskCompletion } from '@/lib/services/subtasks';
+
+export type CostSettings = Pick<ProjectMetadata, 'budget' | 'hourlyRate' | 'memberRates'>;
+
+export interface EarnedValueMetrics {
+  budgetAtCompletion: number; // BAC: the budget, or estimated hours × rate when no budget is set
+  isBudgetDerived: boolean;
+  hourlyRate: number; // project rate used for planned work and unattributed hours
+  plannedValue: number; // PV: budgeted cost of the work scheduled to be done by now
+  earnedValue: number; // EV: budgeted cost of the work done, counting partly finished tasks by their subtasks
+  actualCost: number; // AC: tracked hours × rates
+  costVariance: number; // EV - AC; negative is over budget
+  scheduleVariance: number; // EV - PV; negative is behind schedule
+  cpi: number | null; // EV / AC; null until time has been tracked
+  spi: number | null; // EV / PV; null until work was planned to start
+  estimateAtCompletion: number; // EAC: AC + remaining budget at the current CPI
+  estimateToComplete: number;
+  varianceAtCompletion: number; // BAC - EAC
+}
+
+/**
+ * The project's hourly rate: the configured rate, otherwise the budget spread over the estimated hours
+ */
+export function getProjectHourlyRate(project: Project): number | null {
+  const { hourlyRate, budget } = project.metadata;
+  if (hourlyRate && hourlyRate > 0) return hourlyRate;
+
+  const estimatedHours = getAllTasks(project).reduce((sum, task) => sum + task.estimatedTime, 0);
+  if (budget && budget > 0 && estimatedHours > 0) return budget / estimatedHours;
+  return null;
+}
+
+/**
+ * A team member's hourly rate, falling back to the project rate
+ */
+export function getMemberHourlyRate(project: Project, member?: string): number | null {
+  const memberRate = member ? project.metadata.memberRates?.find(rate => rate.member === member) : undefined;
+  return memberRate ? memberRate.hourlyRate : getProjectHourlyRate(project);
+}
+
+/**
+ * Cost of the hours tracked on a task, charging each time log at the rate of the person who logged it.
+ * Untracked actualTime is charged at the project rate.
+ */
+export function getTaskActualCost(project: Project, task: Microtask, now: number = Date.now()): number {
+  const projectRate = getProjectHourlyRate(project) ?? 0;
+  if (!task.timeLogs || task.timeLogs.length === 0) return (task.actualTime || 0) * projectRate;
+
+  return task.timeLogs.reduce(
+    (sum, entry) => sum + getTimeLogHours(entry, now) * (getMemberHourlyRate(project, entry.user) ?? projectRate),
+    0
+  );
+}
+
+/**
+ * Earned value management metrics for the project as of `now`.
+ * Each task's share of the budget follows its estimate. PV accrues over the working days of the
+ * task's scheduled dates and EV with how much of the task is done, so ticked-off subtasks earn
+ * their share before the task is completed. Returns null when there is neither
+ * an hourly rate nor a budget to price the work with.
+ */
+export function calculateEarnedValue(project: Project, now: number = Date.now()): EarnedValueMetrics | null {
+  const hourlyRate = getProjectHourlyRate(project);
+  if (hourlyRate === null) return null;
+
+  const calendar = getWorkingCalendar(project);
+  const allTasks = getAllTasks(project);
+  const estimatedHours = allTasks.reduce((sum, task) => sum + task.estimatedTime, 0);
+  const isBudgetDerived = !(project.metadata.budget && project.metadata.budget > 0);
+  const budgetAtCompletion = isBudgetDerived ? estimatedHours * hourlyRate : project.metadata.budget!;
+  const taskBudget = (task: Microtask) =>
+    estimatedHours > 0 ? (budgetAtCompletion * task.estimatedTime) / estimatedHours : budgetAtCompletion / Math.max(allTasks.length, 1);
+
+  const plannedValue = buildProjectTimeline(project).phases
+    .flatMap(phase => phase.tasks)
+    .reduce((sum, bar) => {
+      if (now >= bar.end) return sum + taskBudget(bar.task);
+      if (now <= bar.start) return sum;
+      const plannedDays = Math.max(countWorkingDays(calendar, bar.start, bar.end), 1);
+      const elapsedDays = Math.min(countWorkingDays(calendar, bar.start, now), plannedDays);
+      return sum + taskBudget(bar.task) * (elapsedDays / plannedDays);
+    }, 0);
+  const earnedValue = allTasks.reduce((sum, task) => sum + taskBudget(task) * getTaskCompletion(task), 0);
+  const actualCost = allTasks.reduce((sum, task) => sum + getTaskActualCost(project, task, now), 0);
+
+  const cpi = actualCost > 0 ? earnedValue / actualCost : null;
+  const spi = plannedValue > 0 ? earnedValue / plannedValue : null;
+  // Without a cost history the remaining work is assumed to cost what was budgeted
+  const estimateToComplete = (budgetAtCompletion - earnedValue) / (cpi && cpi > 0 ? cpi : 1);
+  const estimateAtCompletion = actualCost + estimateToComplete;
+
+  return {
+    budgetAtCompletion: roundMoney(budgetAtCompletion),
+    isBudgetDerived,
+    hourlyRate: roundMoney(hourlyRate),
+    plannedValue: roundMoney(plannedValue),
+    earnedValue: roundMoney(earnedValue),
+    actualCost: roundMoney(actualCost),
+    costVariance: roundMoney(earnedValue - actualCost),
+    scheduleVariance: roundMoney(earnedValue - plannedValue),
+    cpi: cpi === null ? null : Math.round(cpi * 100) / 100,
+    spi: spi === null ? null : Math.round(spi * 100) / 100,
+    estimateAtCompletion: roundMoney(estimateAtCompletion),
+    estimateToComplete: roundMoney(estimateToComplete),
+    varianceAtCompletion: roundMoney(budgetAtCompletion - estimateAtCompletion)
+  };
+}
+
+/**
+ * Returns an error message for invalid cost settings, or null when they are valid
+ */
+export function validateCostSettings(settings: CostSettings): string | null {
+  if (settings.budget !== undefined && (!Number.isFinite(settings.budget) || settings.budget < 0)) {
+    return 'Budget must be zero or more.';
+  }
+  if (settings.hourlyRate !== undefined && (!Number.isFinite(settings.hourlyRate) || settings.hourlyRate < 0)) {
+    return 'Hourly rate must be zero or more.';
+  }
+  const invalidMember = settings.memberRates?.find(rate => !Number.isFinite(rate.hourlyRate) || rate.hourlyRate < 0);
+  if (invalidMember) {
+    return `Hourly rate for ${invalidMember.member} must be zero or more.`;
+  }
+  return null;
+}
+
+/**
+ * Formats an amount in USD, the currency budgets are entered in
+ */
+export function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(amount);
+}
+
+function getAllTasks(project: Project): Microtask[] {
+  return project.phases.flatMap(phase => phase.microtasks);
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,124 @@
+// src/lib/services/estimate-calibration.ts
+import type { Project, Phase, Microtask } from '@/lib/types';
+import { hasTrackedEstimate } from '@/lib/services/estimation-accuracy';
+import { applyThreePointEstimate, scaleThreePointEstimate } from '@/lib/services/pert';
+
+export interface CalibrationFactor {
+  factor: number; // multiply a raw estimate by this
+  sampleSize: number;
+}
+
+export interface CalibrationProfile {
+  sampleSize: number;
+  byComplexity: Record<string, CalibrationFactor>;
+  byTag: Record<string, CalibrationFactor>;
+}
+
+// Small samples are pulled towards 1: with this many tasks a group gets half of its observed bias
+const SHRINKAGE_SAMPLES = 3;
+const MIN_FACTOR = 0.5;
+const MAX_FACTOR = 3;
+// Calibrated hours are rounded to a quarter hour, like the editor's estimate step
+const ROUNDING_HOURS = 0.25;
+
+/**
+ * The estimate a task started with: the raw AI estimate when it was calibrated, otherwise its estimate
+ */
+export function getBaseEstimate(task: Microtask): number {
+  return task.rawEstimatedTime ?? task.estimatedTime;
+}
+
+/**
+ * Learns how far off estimates are, per complexity and per tag, from completed tasks with tracked
+ * time across all given projects. Ratios are taken against the raw estimate so calibrating a plan
+ * never feeds back into the next calibration.
+ */
+export function learnCalibration(projects: Project[]): CalibrationProfile {
+  const tasks = projects
+    .flatMap(project => project.phases.flatMap(phase => phase.microtasks))
+    .filter(task => hasTrackedEstimate(task) && getBaseEstimate(task) > 0);
+
+  const byComplexity = new Map<string, Microtask[]>();
+  const byTag = new Map<string, Microtask[]>();
+  tasks.forEach(task => {
+    byComplexity.set(task.complexity, [...(byComplexity.get(task.complexity) || []), task]);
+    task.tags.forEach(tag => byTag.set(tag, [...(byTag.get(tag) || []), task]));
+  });
+
+  const toFactors = (groups: Map<string, Microtask[]>) =>
+    Object.fromEntries(Array.from(groups.entries()).map(([key, groupTasks]) => [key, learnFactor(groupTasks)]));
+
+  return {
+    sampleSize: tasks.length,
+    byComplexity: toFactors(byComplexity),
+    byTag: toFactors(byTag)
+  };
+}
+
+/**
+ * Combines the complexity factor and any tag factors for a task, weighting each by its sample size
+ * (geometric mean, so a 2× and a 0.5× factor cancel out)
+ */
+export function getCalibrationFactor(profile: CalibrationProfile, task: Pick<Microtask, 'complexity' | 'tags'>): number {
+  const factors = [
+    profile.byComplexity[task.complexity],
+    ...task.tags.map(tag => profile.byTag[tag])
+  ].filter((factor): factor is CalibrationFactor => Boolean(factor));
+
+  const totalWeight = factors.reduce((sum, { sampleSize }) => sum + sampleSize, 0);
+  if (totalWeight === 0) return 1;
+  const logSum = factors.reduce((sum, { factor, sampleSize }) => sum + Math.log(factor) * sampleSize, 0);
+  return Math.exp(logSum / totalWeight);
+}
+
+/**
+ * Applies calibration to a freshly generated task, keeping the AI's number in rawEstimatedTime.
+ * A three-point estimate is scaled as a whole so its spread stays proportional.
+ */
+export function calibrateMicrotask(task: Microtask, profile: CalibrationProfile): Microtask {
+  const factor = getCalibrationFactor(profile, task);
+  if (Math.abs(factor - 1) < 0.01 || task.estimatedTime <= 0) return task;
+
+  if (task.threePointEstimate) {
+    const calibratedTask = applyThreePointEstimate(task, scaleThreePointEstimate(task.threePointEstimate, factor));
+    return { ...calibratedTask, rawEstimatedTime: task.estimatedTime };
+  }
+
+  const calibrated = Math.max(ROUNDING_HOURS, Math.round((task.estimatedTime * factor) / ROUNDING_HOURS) * ROUNDING_HOURS);
+  return { ...task, rawEstimatedTime: task.estimatedTime, estimatedTime: calibrated };
+}
+
+/**
+ * Calibrates every microtask in a newly generated plan
+ */
+export function calibratePhases(phases: Phase[], profile: CalibrationProfile): Phase[] {
+  if (profile.sampleSize === 0) return phases;
+  return phases.map(phase => ({
+    ...phase,
+    microtasks: phase.microtasks.map(task => calibrateMicrotask(task, profile))
+  }));
+}
+
+/**
+ * One line per notable factor, for prompts and toasts
+ */
+export function describeCalibration(profile: CalibrationProfile): string[] {
+  const describe = (label: string, { factor, sampleSize }: CalibrationFactor) =>
+    `${label} tasks take ${factor.toFixed(2)}× their estimate (${sampleSize} tracked)`;
+
+  return [
+    ...Object.entries(profile.byComplexity).map(([complexity, factor]) => describe(complexity, factor)),
+    ...Object.entries(profile.byTag)
+      .filter(([, factor]) => factor.sampleSize >= SHRINKAGE_SAMPLES && Math.abs(factor.factor - 1) >= 0.1)
+      .map(([tag, factor]) => describe(`"${tag}"`, factor))
+  ];
+}
+
+function learnFactor(tasks: Microtask[]): CalibrationFactor {
+  const actualHours = tasks.reduce((sum, task) => sum + task.actualTime!, 0);
+  const estimatedHours = tasks.reduce((sum, task) => sum + getBaseEstimate(task), 0);
+  const observed = actualHours / estimatedHours;
+  const weight = tasks.length / (tasks.length + SHRINKAGE_SAMPLES);
+  const factor = Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, 1 + (observed - 1) * weight));
+  return { factor: Math.round(factor * 100) / 100, sampleSize: tasks.length };
+}
@@ -0,0 +1,90 @@
+// src/lib/services/estimation-accuracy.ts
+import type { Project, Microtask } from '@/lib/types';
+
+export type EstimationDimension = 'complexity' | 'priority' | 'tag' | 'phase';
+
+export interface EstimationGroup {
+  key: string;
+  taskCount: number;
+  estimatedHours: number;
+  actualHours: number;
+  ratio: number; // actual / estimated hours; above 1 means underestimated
+  averageErrorPercent: number; // mean absolute per-task error
+}
+
+export interface EstimationOutlier {
+  task: Microtask;
+  phaseName: string;
+  ratio: number;
+}
+
+export interface EstimationAccuracyReport {
+  sampleSize: number;
+  overall: EstimationGroup | null;
+  groups: Record<EstimationDimension, EstimationGroup[]>;
+  outliers: EstimationOutlier[];
+}
+
+// A task is an outlier when it took at least twice, or at most half, its estimate
+const OUTLIER_FACTOR = 2;
+const MAX_OUTLIERS = 10;
+
+/**
+ * True when a task is finished and has both an estimate and tracked time to compare
+ */
+export function hasTrackedEstimate(task: Microtask): boolean {
+  return task.isCompleted && task.estimatedTime > 0 && task.actualTime !== undefined && task.actualTime > 0;
+}
+
+/**
+ * Breaks estimate vs actual hours down by complexity, priority, tag and phase.
+ * Only completed tasks with tracked time are counted; groups are sorted worst-estimated first.
+ */
+export function analyzeEstimationAccuracy(project: Project): EstimationAccuracyReport {
+  const samples = project.phases.flatMap(phase =>
+    phase.microtasks.filter(hasTrackedEstimate).map(task => ({ task, phaseName: phase.name }))
+  );
+
+  const groupBy = (keysFor: (sample: typeof samples[number]) => string[]): EstimationGroup[] => {
+    const buckets = new Map<string, Microtask[]>();
+    samples.forEach(sample => {
+      keysFor(sample).forEach(key => buckets.set(key, [...(buckets.get(key) || []), sample.task]));
+    });
+    return Array.from(buckets.entries())
+      .map(([key, tasks]) => summarize(key, tasks))
+      .sort((a, b) => Math.abs(Math.log(b.ratio)) - Math.abs(Math.log(a.ratio)));
+  };
+
+  const outliers = samples
+    .map(({ task, phaseName }) => ({ task, phaseName, ratio: task.actualTime! / task.estimatedTime }))
+    .filter(({ ratio }) => ratio >= OUTLIER_FACTOR || ratio <= 1 / OUTLIER_FACTOR)
+    .sort((a, b) => Math.abs(Math.log(b.ratio)) - Math.abs(Math.log(a.ratio)))
+    .slice(0, MAX_OUTLIERS);
+
+  return {
+    sampleSize: samples.length,
+    overall: samples.length > 0 ? summarize('all', samples.map(sample => sample.task)) : null,
+    groups: {
+      complexity: groupBy(({ task }) => [task.complexity]),
+      priority: groupBy(({ task }) => [task.priority]),
+      tag: groupBy(({ task }) => task.tags),
+      phase: groupBy(({ phaseName }) => [phaseName])
+    },
+    outliers
+  };
+}
+
+function summarize(key: string, tasks: Microtask[]): EstimationGroup {
+  const estimatedHours = tasks.reduce((sum, task) => sum + task.estimatedTime, 0);
+  const actualHours = tasks.reduce((sum, task) => sum + task.actualTime!, 0);
+  const totalError = tasks.reduce((sum, task) => sum + Math.abs(task.actualTime! - task.estimatedTime) / task.estimatedTime, 0);
+
+  return {
+    key,
+    taskCount: tasks.length,
+    estimatedHours: Math.round(estimatedHours * 100) / 100,
+    actualHours: Math.round(actualHours * 100) / 100,
+    ratio: actualHours / estimatedHours,
+    averageErrorPercent: Math.round((totalError / tasks.length) * 100)
+  };
+}
@@ -0,0 +1,209 @@
+// src/lib/services/forecast.ts
+import type { Project, Microtask, TaskComplexity } from '@/lib/types';
+import { addCalendarDays, createCapacityLookup } from '@/lib/services/working-calendar';
+import { hasTrackedEstimate } from '@/lib/services/estimation-accuracy';
+import { sampleThreePointEstimate } from '@/lib/services/pert';
+
+export interface ForecastBucket {
+  days: number; // calendar days from today, upper edge of the bucket
+  date: number;
+  count: number;
+  cumulativePercent: number;
+}
+
+// Why some simulated outcomes never finish: the team has no working hours at all, or the work
+// needs more of them than the calendar holds within the capacity lookup's search window
+export type ForecastLimit = 'no-capacity' | 'beyond-horizon';
+
+export interface CompletionForecast {
+  p50: number | null; // completion timestamps, null when that percentile falls on unfinished simulations
+  p85: number | null;
+  p95: number | null;
+  p50Days: number | null; // calendar days from today, counting today
+  p85Days: number | null;
+  p95Days: number | null;
+  limit: ForecastLimit | null; // set when any simulation does not finish
+  unfinishedPercent: number; // share of simulations that do not finish
+  remainingEstimatedHours: number;
+  medianRemainingHours: number;
+  sampleSize: number; // historical tasks the ratios were drawn from
+  usedFallbackRatios: boolean;
+  distribution: ForecastBucket[];
+  confidence: 'low' | 'medium' | 'high';
+}
+
+export interface ForecastOptions {
+  iterations?: number;
+  seed?: number;
+  now?: number;
+}
+
+const DEFAULT_ITERATIONS = 2000;
+const HISTOGRAM_BUCKETS = 20;
+// A complexity needs this many completed tasks before it gets its own ratio pool
+const MIN_SAMPLES_PER_COMPLEXITY = 3;
+// Right-skewed prior used until the project has tracked history: tasks overrun more often than they underrun
+const FALLBACK_RATIOS = [0.8, 0.9, 1, 1, 1.1, 1.2, 1.35, 1.5, 1.75, 2];
+
+/**
+ * Historical actualTime / estimatedTime ratios, grouped by complexity
+ */
+export function getHistoricalRatios(tasks: Microtask[]): {
+  byComplexity: Partial<Record<TaskComplexity, number[]>>;
+  all: number[];
+} {
+  const byComplexity: Partial<Record<TaskComplexity, number[]>> = {};
+  const all: number[] = [];
+
+  tasks
+    .filter(hasTrackedEstimate)
+    .forEach(task => {
+      const ratio = task.actualTime! / task.estimatedTime;
+      (byComplexity[task.complexity] ??= []).push(ratio);
+      all.push(ratio);
+    });
+
+  return { byComplexity, all };
+}
+
+/**
+ * Simulates the remaining work many times, scaling each open task's estimate by a ratio
+ * sampled from completed tasks of the same complexity, and reports percentile completion dates.
+ * Until there is tracked history, tasks with a three-point estimate are sampled from it instead of the prior.
+ * Simulated hours are burned against the team's capacity on the project's working calendar.
+ * Seeded so the same project always produces the same forecast.
+ */
+export function forecastCompletion(project: Project, options: ForecastOptions = {}): CompletionForecast {
+  const { iterations = DEFAULT_ITERATIONS, seed = 42, now = Date.now() } = options;
+  const allTasks = project.phases.flatMap(phase => phase.microtasks);
+  const remainingTasks = allTasks.filter(task => !task.isCompleted);
+  const remainingEstimatedHours = remainingTasks.reduce((sum, task) => sum + task.estimatedTime, 0);
+  const { byComplexity, all } = getHistoricalRatios(allTasks);
+  const usedFallbackRatios = all.length === 0;
+
+  const ratioPoolFor = (complexity: TaskComplexity): number[] => {
+    const pool = byComplexity[complexity];
+    if (pool && pool.length >= MIN_SAMPLES_PER_COMPLEXITY) return pool;
+    return usedFallbackRatios ? FALLBACK_RATIOS : all;
+  };
+  const samplers = remainingTasks.map(task => {
+    if (usedFallbackRatios && task.threePointEstimate) {
+      const estimate = task.threePointEstimate;
+      return (uniform: number) => sampleThreePointEstimate(estimate, uniform);
+    }
+    const ratios = ratioPoolFor(task.complexity);
+    return (uniform: number) => task.estimatedTime * ratios[Math.floor(uniform * ratios.length)];
+  });
+
+  const random = createRandom(seed);
+  const simulatedHours: number[] = [];
+  for (let i = 0; i < (remainingTasks.length > 0 ? iterations : 1); i++) {
+    let hours = 0;
+    for (const sample of samplers) {
+      hours += sample(random());
+    }
+    simulatedHours.push(hours);
+  }
+  simulatedHours.sort((a, b) => a - b);
+
+  // Day N means the work finishes during the Nth calendar day, today being day 1. Outcomes the
+  // calendar cannot absorb stay in the sample as Infinity so they still count towards the percentiles.
+  const dayIndexForHours = createCapacityLookup(project, now);
+  const toDays = (hours: number) => {
+    if (hours <= 0) return 0;
+    const dayIndex = dayIndexForHours(hours);
+    return dayIndex < 0 ? Infinity : dayIndex + 1;
+  };
+  const simulatedDays = simulatedHours.map(toDays);
+  const finishedDays = simulatedDays.filter(Number.isFinite);
+  const unfinished = simulatedDays.length - finishedDays.length;
+  const limit: ForecastLimit | null = unfinished === 0
+    ? null
+    : dayIndexForHours(Number.EPSILON) < 0 ? 'no-capacity' : 'beyond-horizon';
+
+  const daysAt = (p: number) => {
+    const days = percentile(simulatedDays, p);
+    return Number.isFinite(days) ? days : null;
+  };
+  const toDate = (days: number | null) => (days === null ? null : days > 0 ? addCalendarDays(now, days - 1) : now);
+  const p50Days = daysAt(0.5);
+  const p85Days = daysAt(0.85);
+  const p95Days = daysAt(0.95);
+
+  return {
+    p50: toDate(p50Days),
+    p85: toDate(p85Days),
+    p95: toDate(p95Days),
+    p50Days,
+    p85Days,
+    p95Days,
+    limit,
+    unfinishedPercent: Math.round((unfinished / simulatedDays.length) * 100),
+    remainingEstimatedHours,
+    medianRemainingHours: percentile(simulatedHours, 0.5),
+    sampleSize: all.length,
+    usedFallbackRatios,
+    distribution: buildDistribution(finishedDays, simulatedDays.length, now),
+    confidence: rateConfidence(all.length, p50Days, p95Days)
+  };
+}
+
+/**
+ * Nearest-rank percentile of an ascending array
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+  return sorted[index];
+}
+
+/**
+ * Histogram of the finished outcomes; cumulative percentages are of all simulations, so they stop
+ * short of 100% when some never finish
+ */
+function buildDistribution(sortedDays: number[], total: number, now: number): ForecastBucket[] {
+  if (sortedDays.length === 0) return [];
+  const min = sortedDays[0] ?? 0;
+  const max = sortedDays[sortedDays.length - 1] ?? 0;
+  const width = Math.max(1, Math.ceil((max - min + 1) / HISTOGRAM_BUCKETS));
+  const buckets: ForecastBucket[] = [];
+
+  let counted = 0;
+  for (let upper = min + width - 1; ; upper += width) {
+    const count = sortedDays.filter(days => days > upper - width && days <= upper).length;
+    counted += count;
+    buckets.push({
+      days: upper,
+      date: upper > 0 ? addCalendarDays(now, upper - 1) : now,
+      count,
+      cumulativePercent: Math.round((counted / total) * 100)
+    });
+    if (upper >= max) break;
+  }
+  return buckets;
+}
+
+/**
+ * Confidence reflects how much history backs the ratios and how wide the P50–P95 spread is
+ */
+function rateConfidence(sampleSize: number, p50Days: number | null, p95Days: number | null): 'low' | 'medium' | 'high' {
+  if (sampleSize < MIN_SAMPLES_PER_COMPLEXITY || p50Days === null || p95Days === null) return 'low';
+  const spread = p50Days > 0 ? (p95Days - p50Days) / p50Days : 0;
+  if (sampleSize >= 10 && spread <= 0.25) return 'high';
+  if (spread <= 0.6) return 'medium';
+  return 'low';
+}
+
+/**
+ * Small deterministic PRNG (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,156 @@
+// src/lib/services/pert.ts
+import type { Microtask, TaskComplexity, ThreePointEstimate } from '@/lib/types';
+
+export interface PertEstimate {
+  expected: number; // hours
+  standardDeviation: number;
+}
+
+export interface PertSummary {
+  expectedHours: number;
+  standardDeviation: number; // of the total, assuming tasks vary independently
+  taskCount: number;
+  threePointCount: number; // tasks that contributed a spread; the rest count with no uncertainty
+}
+
+// Optimistic and pessimistic hours as a multiple of the expected value, used when only a single
+// estimate is known. Harder tasks get a wider, more right-skewed spread.
+const DEFAULT_SPREADS: Record<TaskComplexity, { optimistic: number; pessimistic: number }> = {
+  simple: { optimistic: 0.8, pessimistic: 1.3 },
+  moderate: { optimistic: 0.7, pessimistic: 1.6 },
+  complex: { optimistic: 0.6, pessimistic: 2 },
+  expert: { optimistic: 0.5, pessimistic: 2.5 }
+};
+// Estimates are kept to a quarter hour, like the editor's estimate step
+const ROUNDING_HOURS = 0.25;
+
+/**
+ * PERT (beta) expected value and standard deviation of a three-point estimate
+ */
+export function calculatePertEstimate({ optimistic, mostLikely, pessimistic }: ThreePointEstimate): PertEstimate {
+  return {
+    expected: (optimistic + 4 * mostLikely + pessimistic) / 6,
+    standardDeviation: (pessimistic - optimistic) / 6
+  };
+}
+
+/**
+ * A task's PERT estimate; tasks with only a single estimate have no spread
+ */
+export function getTaskPertEstimate(task: Microtask): PertEstimate {
+  return task.threePointEstimate
+    ? calculatePertEstimate(task.threePointEstimate)
+    : { expected: task.estimatedTime, standardDeviation: 0 };
+}
+
+/**
+ * Sums expected hours over tasks and combines their variances into one standard deviation
+ */
+export function summarizePert(tasks: Microtask[]): PertSummary {
+  let expectedHours = 0;
+  let variance = 0;
+  tasks.forEach(task => {
+    const { expected, standardDeviation } = getTaskPertEstimate(task);
+    expectedHours += expected;
+    variance += standardDeviation ** 2;
+  });
+
+  return {
+    expectedHours: Math.round(expectedHours * 10) / 10,
+    standardDeviation: Math.round(Math.sqrt(variance) * 10) / 10,
+    taskCount: tasks.length,
+    threePointCount: tasks.filter(task => task.threePointEstimate).length
+  };
+}
+
+/**
+ * Sets a task's three-point estimate and keeps estimatedTime at its PERT expected value
+ */
+export function applyThreePointEstimate(task: Microtask, estimate: ThreePointEstimate): Microtask {
+  return {
+    ...task,
+    threePointEstimate: estimate,
+    estimatedTime: roundHours(calculatePertEstimate(estimate).expected)
+  };
+}
+
+/**
+ * Spreads a single estimate into a three-point estimate with the same expected value,
+ * using a default spread for the task's complexity
+ */
+export function deriveThreePointEstimate(expectedHours: number, complexity: TaskComplexity): ThreePointEstimate {
+  const spread = DEFAULT_SPREADS[complexity] ?? DEFAULT_SPREADS.moderate;
+  const optimistic = roundHours(expectedHours * spread.optimistic);
+  const pessimistic = roundHours(expectedHours * spread.pessimistic);
+  // Solve (o + 4m + p) / 6 = expected for m
+  const mostLikely = roundHours((6 * expectedHours - optimistic - pessimistic) / 4);
+
+  return {
+    optimistic: Math.min(optimistic, mostLikely),
+    mostLikely,
+    pessimistic: Math.max(pessimistic, mostLikely)
+  };
+}
+
+/**
+ * Gives a generated task its three-point estimate: the model's optimistic and pessimistic hours
+ * around its most likely estimatedTime when both are usable, otherwise a default spread
+ */
+export function applyGeneratedEstimate(task: Microtask, optimistic?: number, pessimistic?: number): Microtask {
+  if (optimistic !== undefined && pessimistic !== undefined) {
+    const estimate = { optimistic, mostLikely: task.estimatedTime, pessimistic };
+    if (!validateThreePointEstimate(estimate)) return applyThreePointEstimate(task, estimate);
+  }
+  return applyThreePointEstimate(task, deriveThreePointEstimate(task.estimatedTime, task.complexity));
+}
+
+/**
+ * Multiplies every point of an estimate, e.g. to calibrate it
+ */
+export function scaleThreePointEstimate(estimate: ThreePointEstimate, factor: number): ThreePointEstimate {
+  return {
+    optimistic: roundHours(estimate.optimistic * factor),
+    mostLikely: roundHours(estimate.mostLikely * factor),
+    pessimistic: roundHours(estimate.pessimistic * factor)
+  };
+}
+
+/**
+ * Draws hours for a three-point estimate, given a uniform random number. The draw follows the
+ * triangular distribution over the three points, stretched towards the nearer bound so its mean is
+ * the PERT expected value; forecasts then centre on the same hours the estimates show.
+ */
+export function sampleThreePointEstimate(estimate: ThreePointEstimate, uniform: number): number {
+  const { optimistic, mostLikely, pessimistic } = estimate;
+  const range = pessimistic - optimistic;
+  if (range <= 0) return mostLikely;
+
+  const split = (mostLikely - optimistic) / range;
+  const triangular = uniform < split
+    ? optimistic + Math.sqrt(uniform * range * (mostLikely - optimistic))
+    : pessimistic - Math.sqrt((1 - uniform) * range * (pessimistic - mostLikely));
+
+  // Rescale around the bound on the short side so every draw stays within optimistic..pessimistic
+  const triangularMean = (optimistic + mostLikely + pessimistic) / 3;
+  const { expected } = calculatePertEstimate(estimate);
+  return expected <= triangularMean
+    ? optimistic + (triangular - optimistic) * (expected - optimistic) / (triangularMean - optimistic)
+    : pessimistic - (pessimistic - triangular) * (pessimistic - expected) / (pessimistic - triangularMean);
+}
+
+/**
+ * Returns an error message for an invalid three-point estimate, or null when it is valid
+ */
+export function validateThreePointEstimate({ optimistic, mostLikely, pessimistic }: ThreePointEstimate): string | null {
+  if ([optimistic, mostLikely, pessimistic].some(hours => !Number.isFinite(hours) || hours < 0)) {
+    return 'Three-point hours must be zero or more.';
+  }
+  if (optimistic > mostLikely || mostLikely > pessimistic) {
+    return 'Hours must go optimistic ≤ most likely ≤ pessimistic.';
+  }
+  return null;
+}
+
+function roundHours(hours: number): number {
+  return Math.max(0, Math.round(hours / ROUNDING_HOURS) * ROUNDING_HOURS);
+}
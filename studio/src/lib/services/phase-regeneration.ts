@@ -0,0 +1,226 @@
+// src/lib/services/phase-regeneration.ts
+import type { Project, Phase, Microtask, RiskAssessment, WorkingCalendar, BoardColumn } from '@/lib/types';
+import type { GeneratePhaseTasksInput } from '@/ai/flows/phase-tasks-flow';
+import type { PlanMicrotask, PlanPhase } from '@/ai/schemas';
+import { applyGeneratedEstimate } from '@/lib/services/pert';
+import { isUnstarted } from '@/lib/services/workload';
+import { getBoardColumns } from '@/lib/services/board';
+import { DEFAULT_WORKING_CALENDAR, hoursToWorkingDays } from '@/lib/services/working-calendar';
+
+export type PhaseGenerationMode = GeneratePhaseTasksInput['mode'];
+
+export interface PhaseTaskChange {
+  before: Microtask;
+  after: Microtask;
+}
+
+export interface PhaseDiff {
+  mode: PhaseGenerationMode;
+  phaseId: string;
+  added: Microtask[];
+  changed: PhaseTaskChange[];
+  removed: Microtask[];
+  kept: Microtask[]; // stay exactly as they are
+}
+
+/**
+ * Only untouched AI tasks may be rewritten or dropped: nothing completed, started,
+ * edited by hand or broken down into subtasks is ever replaced
+ */
+export function isReplaceableTask(task: Microtask, columns: BoardColumn[]): boolean {
+  return task.aiGenerated === true
+    && isUnstarted(task, columns)
+    && (task.subtasks || []).length === 0;
+}
+
+/**
+ * The task as someone changed it, no longer exactly what the AI produced
+ */
+export function markUserEdited(task: Microtask): Microtask {
+  const edited = { ...task };
+  delete edited.aiGenerated; // Firebase rejects undefined, so the flag is removed rather than unset
+  return edited;
+}
+
+/**
+ * Context for the phase flow: the project, the other phases and the phase's tasks split
+ * into the ones the team keeps and the ones the AI may revise
+ */
+export function buildPhaseGenerationInput(project: Project, phase: Phase, mode: PhaseGenerationMode): GeneratePhaseTasksInput {
+  const techStack = project.metadata?.techStack;
+  const technologies = techStack
+    ? [techStack.frontend, techStack.backend, techStack.database, techStack.deployment, techStack.tools].flatMap(list => list || [])
+    : [];
+  const columns = getBoardColumns(project);
+  const describe = (task: Microtask) => (task.description ? `${task.name}: ${task.description}` : task.name);
+
+  return {
+    mode,
+    projectName: project.title || 'Untitled project',
+    projectDescription: project.description || '',
+    techStack: technologies.length > 0 ? technologies.join(', ') : 'Not specified',
+    phaseName: phase.name,
+    phaseDescription: phase.description || '',
+    otherPhases: project.phases.filter(other => other.id !== phase.id).map(other => other.name),
+    keptTasks: phase.microtasks.filter(task => !isReplaceableTask(task, columns)).map(describe),
+    replaceableTasks: phase.microtasks.filter(task => isReplaceableTask(task, columns)).map(describe)
+  };
+}
+
+/**
+ * Converts planned tasks from any planning flow into new microtasks marked as AI generated
+ */
+export function toGeneratedMicrotasks(output: { microtasks: PlanMicrotask[] }, generateId: () => string): Microtask[] {
+  return output.microtasks
+    .filter(aiTask => aiTask.name && aiTask.name.trim())
+    .map(aiTask => applyGeneratedEstimate({
+      id: generateId(),
+      name: aiTask.name.trim(),
+      description: aiTask.description || '',
+      estimatedTime: aiTask.estimatedTime,
+      isCompleted: false,
+      priority: aiTask.priority,
+      complexity: aiTask.complexity,
+      dependencies: [],
+      tags: aiTask.tags || [],
+      aiGenerated: true
+    }, aiTask.optimisticTime, aiTask.pessimisticTime));
+}
+
+/**
+ * Risk of a generated phase, read from how much of its work is complex or expert-level
+ */
+function deriveRiskAssessment(microtasks: Microtask[]): RiskAssessment {
+  const hard = microtasks.filter(task => task.complexity === 'complex' || task.complexity === 'expert').length;
+  const share = microtasks.length > 0 ? hard / microtasks.length : 0;
+  return {
+    level: share >= 0.5 ? 'high' : share >= 0.25 ? 'medium' : 'low',
+    factors: hard > 0 ? [`Complex or expert-level tasks: ${hard} of ${microtasks.length}`] : [],
+    mitigation: ['Regular progress reviews', 'Clear communication']
+  };
+}
+
+/**
+ * Converts a generated plan into phases. Durations and milestones come from the plan when it
+ * gives them; otherwise a phase lasts as many working days as its tasks' hours fill. The plan
+ * carries no risk, so each phase gets a risk level derived from its tasks.
+ */
+export function toGeneratedPhases(phases: PlanPhase[], generateId: () => string, calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR): Phase[] {
+  return phases.map(phase => {
+    const microtasks = toGeneratedMicrotasks(phase, generateId);
+    const taskHours = microtasks.reduce((sum, task) => sum + task.estimatedTime, 0);
+    return {
+      id: generateId(),
+      name: phase.name.trim(),
+      description: phase.description || '',
+      microtasks,
+      estimatedDuration: phase.estimatedDuration && phase.estimatedDuration > 0
+        ? Math.ceil(phase.estimatedDuration)
+        : hoursToWorkingDays(calendar, taskHours),
+      milestone: phase.milestone === true,
+      riskAssessment: deriveRiskAssessment(microtasks)
+    };
+  });
+}
+
+/**
+ * Works out what applying generated tasks to a phase would do.
+ * Extending only adds tasks whose names are new to the phase. Regenerating matches generated
+ * tasks to replaceable ones by name: matches become changes (or stay when nothing differs),
+ * unmatched replaceable tasks are removed and unmatched generated tasks are added.
+ * Tasks that are not replaceable are always kept, and generated duplicates of them are ignored.
+ */
+export function diffPhaseTasks(phase: Phase, generated: Microtask[], mode: PhaseGenerationMode, columns: BoardColumn[]): PhaseDiff {
+  const diff: PhaseDiff = { mode, phaseId: phase.id, added: [], changed: [], removed: [], kept: [] };
+  const seen = new Set<string>();
+  const unique = generated.filter(task => {
+    const key = nameKey(task.name);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (mode === 'extend') {
+    const existing = new Set(phase.microtasks.map(task => nameKey(task.name)));
+    diff.kept = [...phase.microtasks];
+    diff.added = unique.filter(task => !existing.has(nameKey(task.name)));
+    return diff;
+  }
+
+  const keptNames = new Set(phase.microtasks.filter(task => !isReplaceableTask(task, columns)).map(task => nameKey(task.name)));
+  const proposals = new Map(unique.filter(task => !keptNames.has(nameKey(task.name))).map(task => [nameKey(task.name), task]));
+
+  phase.microtasks.forEach(task => {
+    if (!isReplaceableTask(task, columns)) {
+      diff.kept.push(task);
+      return;
+    }
+    const proposal = proposals.get(nameKey(task.name));
+    if (!proposal) {
+      diff.removed.push(task);
+      return;
+    }
+    proposals.delete(nameKey(task.name));
+    const after = reviseTask(task, proposal);
+    if (hasContentChanges(task, after)) {
+      diff.changed.push({ before: task, after });
+    } else {
+      diff.kept.push(task);
+    }
+  });
+  diff.added = Array.from(proposals.values());
+  return diff;
+}
+
+/**
+ * True when applying the diff would change the phase
+ */
+export function hasPhaseChanges(diff: PhaseDiff): boolean {
+  return diff.added.length > 0 || diff.changed.length > 0 || diff.removed.length > 0;
+}
+
+/**
+ * Applies a diff to the current phase by task id, so edits made while it was reviewed survive:
+ * revised tasks stay where they were, removed ones go and new ones are appended
+ */
+export function applyPhaseDiff(phase: Phase, diff: PhaseDiff, columns: BoardColumn[]): Phase {
+  const changes = new Map(diff.changed.map(change => [change.before.id, change.after]));
+  // A task someone touched during review is no longer the AI's to replace
+  const removedIds = new Set(diff.removed.map(task => task.id));
+  const microtasks = phase.microtasks
+    .filter(task => !removedIds.has(task.id) || !isReplaceableTask(task, columns))
+    .map(task => (changes.has(task.id) && isReplaceableTask(task, columns) ? changes.get(task.id)! : task));
+
+  return { ...phase, microtasks: [...microtasks, ...diff.added] };
+}
+
+// The revision brings new content; identity, people, scheduling and links stay with the task
+function reviseTask(task: Microtask, proposal: Microtask): Microtask {
+  const revised: Microtask = {
+    ...task,
+    name: proposal.name,
+    description: proposal.description,
+    estimatedTime: proposal.estimatedTime,
+    priority: proposal.priority,
+    complexity: proposal.complexity,
+    tags: proposal.tags
+  };
+  // Firebase rejects undefined, so estimate details the proposal lacks are removed
+  if (proposal.threePointEstimate) revised.threePointEstimate = proposal.threePointEstimate;
+  else delete revised.threePointEstimate;
+  if (proposal.rawEstimatedTime !== undefined) revised.rawEstimatedTime = proposal.rawEstimatedTime;
+  else delete revised.rawEstimatedTime;
+  return revised;
+}
+
+function hasContentChanges(before: Microtask, after: Microtask): boolean {
+  return before.description !== after.description
+    || before.estimatedTime !== after.estimatedTime
+    || before.priority !== after.priority
+    || before.complexity !== after.complexity
+    || before.tags.join(',') !== after.tags.join(',');
+}
+
+function nameKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
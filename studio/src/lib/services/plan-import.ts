@@ -0,0 +1,91 @@
+// src/lib/services/plan-import.ts
+import type { Phase, Microtask } from '@/lib/types';
+import type { ParsedPhase, ParsedMicrotask } from '@/lib/ai-parser';
+import { applyGeneratedEstimate } from '@/lib/services/pert';
+import { applyTaskCompletion } from '@/lib/services/board';
+import { createSubtask, syncSubtaskCompletion } from '@/lib/services/subtasks';
+
+export interface ParsedPlanSummary {
+  phases: number;
+  tasks: number;
+  subtasks: number;
+  completed: number;
+  estimatedHours: number;
+  unestimated: number; // tasks whose text carried no hours
+}
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+function toImportedMicrotask(parsed: ParsedMicrotask, generateId: () => string): Microtask {
+  const task: Microtask = {
+    id: generateId(),
+    name: parsed.name.trim(),
+    description: parsed.description || '',
+    estimatedTime: parsed.estimatedTime ?? 0,
+    isCompleted: false,
+    priority: parsed.priority || 'medium',
+    complexity: parsed.complexity || 'moderate',
+    dependencies: [],
+    tags: parsed.tags
+  };
+  if (parsed.subtasks.length > 0) {
+    task.subtasks = parsed.subtasks.map(subtask => ({
+      ...createSubtask(subtask.name, subtask.estimatedTime),
+      isCompleted: subtask.isCompleted
+    }));
+  }
+
+  // Only a written range becomes a three-point estimate; a plain figure stays a plain estimate
+  const estimated = parsed.optimisticTime !== undefined && parsed.pessimisticTime !== undefined
+    ? applyGeneratedEstimate(task, parsed.optimisticTime, parsed.pessimisticTime)
+    : task;
+  return parsed.isCompleted ? applyTaskCompletion(estimated, true) : syncSubtaskCompletion(estimated);
+}
+
+/**
+ * Turns a parsed plan into phases. Imported tasks are the team's own, so they are not marked as AI generated.
+ */
+export function toImportedPhases(parsed: ParsedPhase[], generateId: () => string): Phase[] {
+  return parsed.map(phase => ({
+    id: generateId(),
+    name: phase.name.trim(),
+    description: phase.description || '',
+    microtasks: phase.microtasks.map(task => toImportedMicrotask(task, generateId)),
+    estimatedDuration: 7, // Default 7 days
+    milestone: false
+  }));
+}
+
+/**
+ * Adds imported phases to a project. A phase whose name already exists receives only the tasks
+ * it does not have yet, so pasting the same outline twice changes nothing.
+ */
+export function mergeImportedPhases(existing: Phase[], imported: Phase[]): Phase[] {
+  const merged = existing.map(phase => ({ ...phase }));
+  imported.forEach(phase => {
+    const match = merged.find(candidate => nameKey(candidate.name) === nameKey(phase.name));
+    if (!match) {
+      merged.push(phase);
+      return;
+    }
+    const taken = new Set(match.microtasks.map(task => nameKey(task.name)));
+    const added = phase.microtasks.filter(task => !taken.has(nameKey(task.name)));
+    if (added.length > 0) match.microtasks = [...match.microtasks, ...added];
+  });
+  return merged;
+}
+
+/**
+ * Counts for the import preview
+ */
+export function summarizeParsedPlan(parsed: ParsedPhase[]): ParsedPlanSummary {
+  const tasks = parsed.flatMap(phase => phase.microtasks);
+  return {
+    phases: parsed.length,
+    tasks: tasks.length,
+    subtasks: tasks.reduce((sum, task) => sum + task.subtasks.length, 0),
+    completed: tasks.filter(task => task.isCompleted).length,
+    estimatedHours: tasks.reduce((sum, task) => sum + (task.estimatedTime || 0), 0),
+    unestimated: tasks.filter(task => task.estimatedTime === undefined).length
+  };
+}
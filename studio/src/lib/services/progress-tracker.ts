@@ -1,15 +1,23 @@
 // src/lib/services/progress-tracker.ts
 import type { Project, Phase, Microtask } from '@/lib/types';
+import { calculateCriticalPath } from '@/lib/services/critical-path';
+import { validateDependencies } from '@/lib/services/dependency-validator';
+import { forecastCompletion, type CompletionForecast } from '@/lib/services/forecast';
+import { addCalendarDays, countWorkingDays, getWorkingCalendar } from '@/lib/services/working-calendar';
+import { getTaskPertEstimate, summarizePert } from '@/lib/services/pert';
+import { getOpenWorkloadByAssignee, type AssigneeWorkload } from '@/lib/services/assignees';
+import { getTaskCompletion } from '@/lib/services/subtasks';
 
 /**
- * Calculates overall project progress based on completed tasks
+ * Calculates overall project progress based on completed tasks; open tasks with
+ * subtasks count for the share of their subtasks that is done
  */
 export function calculateProjectProgress(project: Project): number {
   const allTasks = project.phases.flatMap(phase => phase.microtasks);
   if (allTasks.length === 0) return 0;
   
-  const completedTasks = allTasks.filter(task => task.isCompleted);
-  return Math.round((completedTasks.length / allTasks.length) * 100);
+  const completedTasks = allTasks.reduce((sum, task) => sum + getTaskCompletion(task), 0);
+  return Math.round((completedTasks / allTasks.length) * 100);
 }
 
 /**
@@ -18,24 +26,54 @@ export function calculateProjectProgress(project: Project): number {
 export function calculatePhaseProgress(phase: Phase): number {
   if (phase.microtasks.length === 0) return 0;
   
-  const completedTasks = phase.microtasks.filter(task => task.isCompleted);
-  return Math.round((completedTasks.length / phase.microtasks.length) * 100);
+  const completedTasks = phase.microtasks.reduce((sum, task) => sum + getTaskCompletion(task), 0);
+  return Math.round((completedTasks / phase.microtasks.length) * 100);
 }
 
 /**
- * Calculates weighted progress based on task complexity and time estimates
+ * Calculates progress weighted by each task's PERT expected hours, and reports the expected
+ * total and remaining hours with their standard deviations. Partly done subtasks shrink
+ * a task's remaining hours and their spread proportionally.
  */
-export function calculateWeightedProgress(project: Project): number {
+export function calculateWeightedProgress(project: Project): {
+  percentage: number;
+  expectedHours: number;
+  standardDeviation: number;
+  remainingExpectedHours: number;
+  remainingStandardDeviation: number;
+} {
   const allTasks = project.phases.flatMap(phase => phase.microtasks);
-  if (allTasks.length === 0) return 0;
+  const total = summarizePert(allTasks);
+  let completedWeight = 0;
+  let remainingHours = 0;
+  let remainingVariance = 0;
+  allTasks.forEach(task => {
+    const { expected, standardDeviation } = getTaskPertEstimate(task);
+    const completion = getTaskCompletion(task);
+    completedWeight += expected * completion;
+    remainingHours += expected * (1 - completion);
+    remainingVariance += (standardDeviation * (1 - completion)) ** 2;
+  });
   
-  const totalWeight = allTasks.reduce((sum, task) => sum + task.estimatedTime, 0);
-  const completedWeight = allTasks
-    .filter(task => task.isCompleted)
-    .reduce((sum, task) => sum + task.estimatedTime, 0);
+  return {
+    percentage: total.expectedHours > 0 ? Math.round((completedWeight / total.expectedHours) * 100) : 0,
+    expectedHours: total.expectedHours,
+    standardDeviation: total.standardDeviation,
+    remainingExpectedHours: Math.round(remainingHours * 10) / 10,
+    remainingStandardDeviation: Math.round(Math.sqrt(remainingVariance) * 10) / 10
+  };
+}
+
+/**
+ * Returns the incomplete tasks that block the given task through 'blocks' dependencies
+ */
+export function getBlockingTasks(task: Microtask, allTasks: Microtask[]): Microtask[] {
+  if (task.isCompleted) return [];
   
-  if (totalWeight === 0) return 0;
-  return Math.round((completedWeight / totalWeight) * 100);
+  return task.dependencies
+    .filter(dep => dep.type === 'blocks' && dep.dependsOn !== task.id)
+    .map(dep => allTasks.find(t => t.id === dep.dependsOn))
+    .filter((blocker): blocker is Microtask => Boolean(blocker && !blocker.isCompleted));
 }
 
 /**
@@ -47,36 +85,39 @@ export function getProjectStats(project: Project): {
   totalEstimatedHours: number;
   totalActualHours: number;
   averageTaskCompletion: number;
-  upcomingDeadlines: Array<{ phaseId: string; phaseName: string; daysRemaining: number }>;
+  upcomingDeadlines: Array<{ phaseId: string; phaseName: string; daysRemaining: number }>; // working days
   criticalTasks: Microtask[];
   blockedTasks: Microtask[];
+  criticalPath: Microtask[]; // longest chain of dependent tasks, in execution order
+  criticalPathHours: number;
   efficiency: number; // actual vs estimated time ratio
+  openWorkload: AssigneeWorkload[]; // open tasks and hours per team member
 } {
   const allTasks = project.phases.flatMap(phase => phase.microtasks);
   const completedTasks = allTasks.filter(task => task.isCompleted);
   
   const totalEstimatedHours = allTasks.reduce((sum, task) => sum + task.estimatedTime, 0);
-  const totalActualHours = completedTasks.reduce((sum, task) => sum + (task.actualTime || 0), 0);
+  const totalActualHours = Math.round(allTasks.reduce((sum, task) => sum + (task.actualTime || 0), 0) * 100) / 100;
   
-  // Calculate efficiency (actual time vs estimated time for completed tasks)
-  const completedEstimatedHours = completedTasks.reduce((sum, task) => sum + task.estimatedTime, 0);
-  let efficiency = 1; // Default efficiency if no data available
+  // Calculate efficiency (actual time vs estimated time), only over completed tasks with tracked time
+  const trackedTasks = completedTasks.filter(task => task.actualTime !== undefined && task.actualTime > 0);
+  const trackedEstimatedHours = trackedTasks.reduce((sum, task) => sum + task.estimatedTime, 0);
+  const trackedActualHours = trackedTasks.reduce((sum, task) => sum + task.actualTime!, 0);
+  let efficiency = 1; // Default efficiency if no tracked time is available
   
-  if (completedEstimatedHours > 0 && totalActualHours > 0) {
-    efficiency = totalActualHours / completedEstimatedHours;
-  } else if (completedTasks.length > 0) {
-    // If we have completed tasks but no actual time recorded, assume 100% efficiency
-    efficiency = 1;
+  if (trackedEstimatedHours > 0 && trackedActualHours > 0) {
+    efficiency = trackedActualHours / trackedEstimatedHours;
   }
   
-  // Find upcoming deadlines (phases ending within 7 days)
+  // Find upcoming deadlines (phases ending within 7 working days)
   const now = Date.now();
+  const calendar = getWorkingCalendar(project);
   const upcomingDeadlines = project.phases
     .filter(phase => phase.endDate && phase.endDate > now)
     .map(phase => ({
       phaseId: phase.id,
       phaseName: phase.name,
-      daysRemaining: Math.ceil((phase.endDate! - now) / (1000 * 60 * 60 * 24))
+      daysRemaining: countWorkingDays(calendar, now, phase.endDate!)
     }))
     .filter(deadline => deadline.daysRemaining <= 7)
     .sort((a, b) => a.daysRemaining - b.daysRemaining);
@@ -87,14 +128,13 @@ export function getProjectStats(project: Project): {
   );
   
   // Find blocked tasks (tasks with incomplete dependencies)
-  const blockedTasks = allTasks.filter(task => {
-    if (task.isCompleted) return false;
-    
-    return task.dependencies.some(dep => {
-      const dependentTask = allTasks.find(t => t.id === dep.dependsOn);
-      return dependentTask && !dependentTask.isCompleted && dep.type === 'blocks';
-    });
-  });
+  const blockedTasks = allTasks.filter(task => getBlockingTasks(task, allTasks).length > 0);
+  
+  // Critical path from the deterministic CPM schedule
+  const criticalPathAnalysis = calculateCriticalPath(project.phases);
+  const criticalPath = criticalPathAnalysis.criticalPath
+    .map(taskId => allTasks.find(task => task.id === taskId))
+    .filter((task): task is Microtask => Boolean(task));
   
   // Calculate average task completion time
   const tasksWithActualTime = completedTasks.filter(task => task.actualTime);
@@ -111,67 +151,58 @@ export function getProjectStats(project: Project): {
     upcomingDeadlines,
     criticalTasks,
     blockedTasks,
-    efficiency
+    criticalPath,
+    criticalPathHours: criticalPathAnalysis.projectDuration,
+    efficiency,
+    openWorkload: getOpenWorkloadByAssignee(project)
   };
 }
 
 /**
- * Predicts project completion date based on current progress
+ * Predicts project completion from a Monte Carlo forecast of the remaining work.
+ * estimatedCompletionDate is the P50 date, null when the team's capacity cannot finish half of the
+ * simulated outcomes; see `forecast` for P85/P95, the distribution and why outcomes did not finish.
+ * expectedRemainingHours and remainingStandardDeviation are the PERT totals of the open work,
+ * as in calculateWeightedProgress.
  */
 export function predictCompletionDate(project: Project): {
-  estimatedCompletionDate: number;
+  estimatedCompletionDate: number | null;
   confidence: 'low' | 'medium' | 'high';
   remainingHours: number;
-  recommendedDaily: number;
+  expectedRemainingHours: number;
+  remainingStandardDeviation: number;
+  recommendedDaily: number | null;
+  forecast: CompletionForecast;
 } {
-  const stats = getProjectStats(project);
-  const remainingTasks = stats.totalTasks - stats.completedTasks;
-  const remainingHours = stats.totalEstimatedHours - stats.totalActualHours;
+  const forecast = forecastCompletion(project);
+  const remaining = calculateWeightedProgress(project);
   
   // If project is complete, return current date
-  if (remainingTasks === 0) {
+  if (project.phases.every(phase => phase.microtasks.every(task => task.isCompleted))) {
     return {
       estimatedCompletionDate: Date.now(),
       confidence: 'high',
       remainingHours: 0,
-      recommendedDaily: 0
+      expectedRemainingHours: 0,
+      remainingStandardDeviation: 0,
+      recommendedDaily: 0,
+      forecast
     };
   }
   
-  // Adjust for efficiency, but ensure we don't make remaining hours negative or zero
-  let adjustedRemainingHours = remainingHours * stats.efficiency;
-  
-  // If efficiency calculation results in very low remaining hours, use a minimum baseline
-  if (adjustedRemainingHours < 1 && remainingTasks > 0) {
-    adjustedRemainingHours = Math.max(remainingTasks * 0.5, remainingHours * 0.8);
-  }
-  
-  // Assume 6 productive hours per day
-  const productiveHoursPerDay = 6;
-  const estimatedDaysRemaining = Math.max(1, Math.ceil(adjustedRemainingHours / productiveHoursPerDay));
-  
-  const estimatedCompletionDate = Date.now() + (estimatedDaysRemaining * 24 * 60 * 60 * 1000);
-  
-  // Determine confidence based on project maturity and consistency
-  let confidence: 'low' | 'medium' | 'high' = 'medium';
-  
-  if (stats.completedTasks < 3) {
-    confidence = 'low'; // Not enough data
-  } else if (stats.efficiency > 0.8 && stats.efficiency < 1.2) {
-    confidence = 'high'; // Consistent performance
-  } else if (stats.efficiency > 0.6 && stats.efficiency < 1.5) {
-    confidence = 'medium'; // Somewhat consistent
-  } else {
-    confidence = 'low'; // Highly variable performance
-  }
-  
-  const recommendedDaily = adjustedRemainingHours / Math.max(estimatedDaysRemaining, 1);
+  // Spread the remaining work over the working days until the P50 date
+  const workingDaysToP50 = forecast.p50 === null
+    ? null
+    : countWorkingDays(getWorkingCalendar(project), Date.now(), addCalendarDays(forecast.p50, 1));
   
   return {
-    estimatedCompletionDate,
-    confidence,
-    remainingHours: adjustedRemainingHours,
-    recommendedDaily
+    estimatedCompletionDate: forecast.p50,
+    confidence: forecast.confidence,
+    remainingHours: forecast.medianRemainingHours,
+    expectedRemainingHours: remaining.remainingExpectedHours,
+    remainingStandardDeviation: remaining.remainingStandardDeviation,
+    recommendedDaily: workingDaysToP50 === null ? null : forecast.medianRemainingHours / Math.max(workingDaysToP50, 1),
+    forecast
   };
 }
 
@@ -197,12 +228,21 @@ export function identifyBottlenecks(project: Project): {
   const bottlenecks: any[] = [];
   
   // Dependency bottlenecks
-  const blockedTasks = incompleteTasks.filter(task => 
-    task.dependencies.some(dep => {
-      const dependentTask = allTasks.find(t => t.id === dep.dependsOn);
-      return dependentTask && !dependentTask.isCompleted && dep.type === 'blocks';
-    })
-  );
+  const blockedTasks = incompleteTasks.filter(task => getBlockingTasks(task, allTasks).length > 0);
+  
+  // Invalid dependencies (cycles, self references, deleted targets) never resolve on their own
+  const dependencyIssues = validateDependencies(project.phases);
+  if (dependencyIssues.length > 0) {
+    bottlenecks.push({
+      type: 'dependency',
+      description: `${dependencyIssues.length} invalid dependencies: ${dependencyIssues.map(issue => issue.message).join('; ')}`,
+      affectedTasks: Array.from(new Set(dependencyIssues.map(issue => issue.taskId))),
+      suggestions: [
+        'Remove dependencies that point at deleted tasks',
+        'Break circular dependencies or convert them to parallel work'
+      ]
+    });
+  }
   
   if (blockedTasks.length > 0) {
     bottlenecks.push({
@@ -253,16 +293,19 @@ export function identifyBottlenecks(project: Project): {
 }
 
 /**
- * Generates progress insights and recommendations
+ * Generates progress insights and recommendations. Pass the forecast when it is already
+ * computed; otherwise it is simulated here.
  */
-export function generateProgressInsights(project: Project): {
+export function generateProgressInsights(
+  project: Project,
+  prediction: ReturnType<typeof predictCompletionDate> = predictCompletionDate(project)
+): {
   insights: string[];
   recommendations: string[];
   alerts: string[];
   nextActions: string[];
 } {
   const stats = getProjectStats(project);
-  const prediction = predictCompletionDate(project);
   const bottlenecks = identifyBottlenecks(project);
   
   const insights: string[] = [];
@@ -289,7 +332,7 @@ export function generateProgressInsights(project: Project): {
   if (stats.upcomingDeadlines.length > 0) {
     stats.upcomingDeadlines.forEach(deadline => {
       if (deadline.daysRemaining <= 2) {
-        alerts.push(`Phase "${deadline.phaseName}" deadline in ${deadline.daysRemaining} days`);
+        alerts.push(`Phase "${deadline.phaseName}" deadline in ${deadline.daysRemaining} working days`);
       }
     });
   }
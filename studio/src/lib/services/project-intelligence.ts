@@ -2,6 +2,9 @@
 'use server';
 
 import { ai } from '@/ai/genkit';
+import { flowModel } from '@/ai/providers';
+import { runValidatedPrompt, checkNames, checkHours, checkCount } from '@/ai/validation';
+import { aiFailure, type AIFlowResult } from '@/ai/results';
 import { z } from 'genkit';
 import type { 
   ProjectMetadata, 
@@ -11,6 +14,7 @@ import type {
   Phase,
   Microtask
 } from '@/lib/types';
+import { calculateCriticalPath } from '@/lib/services/critical-path';
 
 // Schema for tech stack analysis
 const TechStackAnalysisSchema = z.object({
@@ -67,9 +71,10 @@ export async function analyzeTechStack(
   projectType: string,
   teamSize: number,
   timeline: number
-): Promise<z.infer<typeof TechStackAnalysisSchema>> {
+): Promise<AIFlowResult<z.infer<typeof TechStackAnalysisSchema>>> {
   const prompt = ai.definePrompt({
     name: 'techStackAnalysis',
+    ...flowModel('analyzeTechStack'),
     input: {
       schema: z.object({
         description: z.string(),
@@ -97,14 +102,23 @@ Consider:
 Provide practical, production-ready recommendations.`
   });
 
-  const { output } = await prompt({
-    description: projectDescription,
-    type: projectType,
-    teamSize,
-    timeline
-  });
-
-  return output!;
+  try {
+    return await runValidatedPrompt(prompt, {
+      description: projectDescription,
+      type: projectType,
+      teamSize,
+      timeline
+    }, {
+      label: 'Tech stack analysis',
+      check: ({ recommendedStack, reasoning }) => [
+        ...(Object.values(recommendedStack).some(list => list.length > 0) ? [] : ['recommendedStack names no technologies']),
+        ...(reasoning.trim() ? [] : ['reasoning is empty'])
+      ]
+    });
+  } catch (error) {
+    console.error('❌ Tech stack analysis failed:', error);
+    return aiFailure('Tech stack analysis failed', error);
+  }
 }
 
 /**
@@ -116,9 +130,10 @@ export async function assessProjectRisks(
   techStack: TechStack,
   teamSize: number,
   timeline: number
-): Promise<z.infer<typeof RiskAssessmentSchema>> {
+): Promise<AIFlowResult<z.infer<typeof RiskAssessmentSchema>>> {
   const prompt = ai.definePrompt({
     name: 'riskAssessment',
+    ...flowModel('assessProjectRisks'),
     input: {
       schema: z.object({
         description: z.string(),
@@ -148,15 +163,24 @@ Analyze risks in:
 Provide actionable mitigation strategies.`
   });
 
-  const { output } = await prompt({
-    description: projectDescription,
-    phases: JSON.stringify(phases, null, 2),
-    techStack: JSON.stringify(techStack, null, 2),
-    teamSize,
-    timeline
-  });
-
-  return output!;
+  try {
+    return await runValidatedPrompt(prompt, {
+      description: projectDescription,
+      phases: JSON.stringify(phases, null, 2),
+      techStack: JSON.stringify(techStack, null, 2),
+      teamSize,
+      timeline
+    }, {
+      label: 'Risk assessment',
+      check: ({ riskFactors, mitigationStrategies }) => [
+        ...checkCount(riskFactors.length, 'risk factors', { min: 1, max: 15 }),
+        ...checkCount(mitigationStrategies.length, 'mitigation strategies', { min: 1, max: 15 })
+      ]
+    });
+  } catch (error) {
+    console.error('❌ Risk assessment failed:', error);
+    return aiFailure('Risk assessment failed', error);
+  }
 }
 
 /**
@@ -167,9 +191,10 @@ export async function enhanceTimeEstimation(
   techStack: TechStack,
   teamExperience: TaskComplexity,
   similarProjects?: string[]
-): Promise<z.infer<typeof TimeEstimationSchema>> {
+): Promise<AIFlowResult<z.infer<typeof TimeEstimationSchema>>> {
   const prompt = ai.definePrompt({
     name: 'timeEstimation',
+    ...flowModel('enhanceTimeEstimation'),
     input: {
       schema: z.object({
         phases: z.string(),
@@ -197,24 +222,41 @@ Consider:
 Provide realistic estimates with confidence levels.`
   });
 
-  const { output } = await prompt({
-    phases: JSON.stringify(phases, null, 2),
-    techStack: JSON.stringify(techStack, null, 2),
-    experience: teamExperience,
-    similarProjects: similarProjects?.join(', ') || 'None provided'
-  });
-
-  return output!;
+  try {
+    return await runValidatedPrompt(prompt, {
+      phases: JSON.stringify(phases, null, 2),
+      techStack: JSON.stringify(techStack, null, 2),
+      experience: teamExperience,
+      similarProjects: similarProjects?.join(', ') || 'None provided'
+    }, {
+      label: 'Time estimation',
+      check: estimation => [
+        ...checkHours(estimation.totalEstimatedHours, 'totalEstimatedHours', { min: 1, max: 20000 }),
+        ...checkNames(estimation.phaseBreakdown.map(phase => phase.phaseName), 'Phase'),
+        ...estimation.phaseBreakdown.flatMap(phase => [
+          ...checkHours(phase.estimatedHours, `Phase "${phase.phaseName}"`, { min: 0.25, max: 10000 }),
+          ...(phase.riskMultiplier >= 0.5 && phase.riskMultiplier <= 3 ? [] : [`Phase "${phase.phaseName}" has riskMultiplier ${phase.riskMultiplier}; use 0.5 to 3`])
+        ]),
+        ...(estimation.bufferRecommendation >= 0 && estimation.bufferRecommendation <= 100 ? [] : [`bufferRecommendation is ${estimation.bufferRecommendation}; use a percentage from 0 to 100`])
+      ]
+    });
+  } catch (error) {
+    console.error('❌ Time estimation failed:', error);
+    return aiFailure('Time estimation failed', error);
+  }
 }
 
 /**
- * Analyzes task dependencies and critical path
+ * Analyzes task dependencies and critical path.
+ * The critical path itself is computed deterministically from the existing task
+ * dependencies; the model only contributes dependency and grouping suggestions.
  */
 export async function analyzeDependencies(
   phases: Phase[]
-): Promise<z.infer<typeof DependencyAnalysisSchema>> {
+): Promise<AIFlowResult<z.infer<typeof DependencyAnalysisSchema>>> {
   const prompt = ai.definePrompt({
     name: 'dependencyAnalysis',
+    ...flowModel('analyzeDependencies'),
     input: {
       schema: z.object({
         phases: z.string()
@@ -235,11 +277,40 @@ Identify:
 Consider realistic development workflows and technical dependencies.`
   });
 
-  const { output } = await prompt({
-    phases: JSON.stringify(phases, null, 2)
-  });
-
-  return output!;
+  let result: AIFlowResult<z.infer<typeof DependencyAnalysisSchema>>;
+  try {
+    result = await runValidatedPrompt(prompt, {
+      phases: JSON.stringify(phases, null, 2)
+    }, {
+      label: 'Dependency analysis',
+      check: ({ dependencies }) => dependencies.flatMap((dep, index) => [
+        ...(dep.taskName.trim() ? [] : [`Dependency ${index + 1} has an empty taskName`]),
+        ...(dep.dependsOn.some(name => name.trim().toLowerCase() === dep.taskName.trim().toLowerCase()) ? [`"${dep.taskName}" depends on itself`] : [])
+      ])
+    });
+  } catch (error) {
+    console.error('❌ Dependency analysis failed:', error);
+    return aiFailure('Dependency analysis failed', error);
+  }
+  if (!result.ok) return result;
+
+  const analysis = result.data;
+  const allTasks = phases.flatMap(phase => phase.microtasks);
+  const criticalPathNames = calculateCriticalPath(phases).criticalPath
+    .map(taskId => allTasks.find(task => task.id === taskId)?.name)
+    .filter((name): name is string => Boolean(name));
+
+  return {
+    ...result,
+    data: {
+      ...analysis,
+      dependencies: analysis.dependencies.map(dep => ({
+        ...dep,
+        criticalPath: criticalPathNames.includes(dep.taskName)
+      })),
+      criticalPath: criticalPathNames
+    }
+  };
 }
 
 /**
@@ -253,12 +324,12 @@ export async function suggestOptimizations(
     totalActualTime?: number;
     totalEstimatedTime: number;
   }
-): Promise<{
+): Promise<AIFlowResult<{
   optimizations: string[];
   timelinePrediction: string;
   scopeAdjustments: string[];
   riskAlerts: string[];
-}> {
+}>> {
   const OptimizationSchema = z.object({
     optimizations: z.array(z.string()).describe('Actionable optimization suggestions'),
     timelinePrediction: z.string().describe('Updated timeline prediction based on current progress'),
@@ -268,6 +339,7 @@ export async function suggestOptimizations(
 
   const prompt = ai.definePrompt({
     name: 'projectOptimization',
+    ...flowModel('suggestOptimizations'),
     input: {
       schema: z.object({
         projectData: z.string()
@@ -288,9 +360,18 @@ Analyze:
 Provide actionable recommendations to improve project outcomes.`
   });
 
-  const { output } = await prompt({
-    projectData: JSON.stringify(project, null, 2)
-  });
-
-  return output!;
+  try {
+    return await runValidatedPrompt(prompt, {
+      projectData: JSON.stringify(project, null, 2)
+    }, {
+      label: 'Optimization suggestions',
+      check: ({ optimizations, timelinePrediction }) => [
+        ...checkCount(optimizations.filter(optimization => optimization.trim()).length, 'non-empty optimizations', { min: 1, max: 15 }),
+        ...(timelinePrediction.trim() ? [] : ['timelinePrediction is empty'])
+      ]
+    });
+  } catch (error) {
+    console.error('❌ Optimization suggestions failed:', error);
+    return aiFailure('Optimization suggestions failed', error);
+  }
 }
@@ -1,5 +1,6 @@
 // src/lib/services/project-templates.ts
 import type { ProjectTemplate, TechStack } from '@/lib/types';
+import { applyThreePointEstimate, deriveThreePointEstimate } from '@/lib/services/pert';
 
 /**
  * Pre-built project templates for common development scenarios
@@ -78,7 +79,14 @@ export const PROJECT_TEMPLATES: ProjectTemplate[] = [
             priority: 'high',
             complexity: 'complex',
             dependencies: [],
-            tags: ['auth', 'nextauth', 'security']
+            tags: ['auth', 'nextauth', 'security'],
+            subtasks: [
+              { id: '', name: 'Configure NextAuth.js and session storage', isCompleted: false, estimatedTime: 2 },
+              { id: '', name: 'Add Google and GitHub OAuth providers', isCompleted: false, estimatedTime: 3 },
+              { id: '', name: 'Build email/password sign-up and sign-in', isCompleted: false, estimatedTime: 4 },
+              { id: '', name: 'Protect routes and API handlers', isCompleted: false, estimatedTime: 2 },
+              { id: '', name: 'Test each provider end to end', isCompleted: false, estimatedTime: 1 }
+            ]
           },
           {
             id: '',
@@ -586,7 +594,8 @@ export function getRecommendedTemplates(
 }
 
 /**
- * Create a project from template with unique IDs
+ * Create a project from template with unique IDs.
+ * Template hours become the expected value of a three-point estimate spread by task complexity.
  */
 export function createProjectFromTemplate(
   template: ProjectTemplate,
@@ -599,8 +608,9 @@ export function createProjectFromTemplate(
     ...phase,
     id: generateId(),
     microtasks: phase.microtasks.map(task => ({
-      ...task,
-      id: generateId()
+      ...applyThreePointEstimate(task, deriveThreePointEstimate(task.estimatedTime, task.complexity)),
+      id: generateId(),
+      ...(task.subtasks && { subtasks: task.subtasks.map(subtask => ({ ...subtask, id: generateId() })) })
     }))
   }));
 
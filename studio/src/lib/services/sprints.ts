@@ -0,0 +1,193 @@
+// src/lib/services/sprints.ts
+import type { Project, Microtask, Sprint } from '@/lib/types';
+import { addCalendarDays, getTeamCapacity, startOfDay } from '@/lib/services/working-calendar';
+import { getRemainingHours } from '@/lib/services/workload';
+
+export const SPRINT_LENGTH_DAYS = 14;
+
+export interface SprintTask {
+  task: Microtask;
+  phaseId: string;
+  phaseName: string;
+}
+
+export interface SprintSummary {
+  committedHours: number; // estimates of every committed task
+  completedHours: number;
+  remainingHours: number; // estimate less logged time on unfinished tasks
+  capacityHours: number; // team capacity over the sprint's working days
+  taskCount: number;
+  completedCount: number;
+  isOverCommitted: boolean;
+}
+
+/**
+ * Sprints that have not been closed by a review, in date order
+ */
+export function getOpenSprints(project: Project): Sprint[] {
+  return (project.sprints || [])
+    .filter(sprint => !sprint.closedAt)
+    .sort((a, b) => a.startDate - b.startDate);
+}
+
+/**
+ * The open sprint running today, or the next one to start
+ */
+export function getCurrentSprint(project: Project, now: number = Date.now()): Sprint | undefined {
+  const today = startOfDay(now);
+  const openSprints = getOpenSprints(project);
+  return openSprints.find(sprint => sprint.startDate <= today && today <= sprint.endDate)
+    || openSprints.find(sprint => sprint.startDate > today)
+    || openSprints[openSprints.length - 1];
+}
+
+/**
+ * A new two-week sprint starting the day after the latest sprint ends, or today
+ */
+export function createSprint(project: Project, now: number = Date.now()): Sprint {
+  const sprints = project.sprints || [];
+  const lastEnd = sprints.length > 0 ? Math.max(...sprints.map(sprint => sprint.endDate)) : undefined;
+  const startDate = lastEnd !== undefined && lastEnd >= startOfDay(now) ? addCalendarDays(lastEnd, 1) : startOfDay(now);
+
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    name: `Sprint ${sprints.length + 1}`,
+    startDate,
+    endDate: addCalendarDays(startDate, SPRINT_LENGTH_DAYS - 1),
+    taskIds: []
+  };
+}
+
+/**
+ * Resolves a sprint's committed task ids to tasks, skipping tasks that were deleted
+ */
+export function getSprintTasks(project: Project, sprint: Sprint): SprintTask[] {
+  const tasks = new Map(project.phases.flatMap(phase =>
+    phase.microtasks.map(task => [task.id, { task, phaseId: phase.id, phaseName: phase.name }] as const)
+  ));
+  return sprint.taskIds
+    .map(taskId => tasks.get(taskId))
+    .filter((entry): entry is SprintTask => Boolean(entry));
+}
+
+/**
+ * Open tasks not committed to any open sprint
+ */
+export function getBacklogTasks(project: Project): SprintTask[] {
+  const committed = new Set(getOpenSprints(project).flatMap(sprint => sprint.taskIds));
+  return project.phases.flatMap(phase => phase.microtasks
+    .filter(task => !task.isCompleted && !committed.has(task.id))
+    .map(task => ({ task, phaseId: phase.id, phaseName: phase.name })));
+}
+
+/**
+ * Team capacity in hours over the sprint's working days, from the project's working calendar
+ */
+export function getSprintCapacity(project: Project, sprint: Sprint): number {
+  let hours = 0;
+  for (let day = startOfDay(sprint.startDate); day <= sprint.endDate; day = addCalendarDays(day, 1)) {
+    hours += getTeamCapacity(project, day);
+  }
+  return hours;
+}
+
+/**
+ * Committed, completed and remaining hours against capacity
+ */
+export function summarizeSprint(project: Project, sprint: Sprint, now: number = Date.now()): SprintSummary {
+  const tasks = getSprintTasks(project, sprint).map(({ task }) => task);
+  const completed = tasks.filter(task => isDoneInSprint(sprint, task));
+  const committedHours = tasks.reduce((sum, task) => sum + task.estimatedTime, 0);
+  const capacityHours = getSprintCapacity(project, sprint);
+
+  return {
+    committedHours: round(committedHours),
+    completedHours: round(completed.reduce((sum, task) => sum + task.estimatedTime, 0)),
+    remainingHours: round(tasks
+      .filter(task => !isDoneInSprint(sprint, task))
+      .reduce((sum, task) => sum + getRemainingHours(task, now), 0)),
+    capacityHours: round(capacityHours),
+    taskCount: tasks.length,
+    completedCount: completed.length,
+    isOverCommitted: committedHours > capacityHours
+  };
+}
+
+/**
+ * Commits a task to a sprint, taking it out of any other open sprint
+ */
+export function commitTaskToSprint(sprints: Sprint[], sprintId: string, taskId: string): Sprint[] {
+  return sprints.map(sprint => {
+    if (sprint.closedAt) return sprint;
+    const taskIds = sprint.taskIds.filter(id => id !== taskId);
+    return { ...sprint, taskIds: sprint.id === sprintId ? [...taskIds, taskId] : taskIds };
+  });
+}
+
+/**
+ * Returns a task from a sprint to the backlog
+ */
+export function removeTaskFromSprint(sprints: Sprint[], sprintId: string, taskId: string): Sprint[] {
+  return sprints.map(sprint =>
+    sprint.id === sprintId ? { ...sprint, taskIds: sprint.taskIds.filter(id => id !== taskId) } : sprint
+  );
+}
+
+export interface CloseSprintOptions {
+  startNextSprint?: boolean; // create the next sprint even when nothing rolls over
+  now?: number;
+}
+
+/**
+ * Closes a sprint for review: records which committed tasks were done and rolls the unfinished
+ * ones into the next sprint. The next sprint is only created when there is no open sprint after
+ * this one and either work rolls over or `startNextSprint` asks for it.
+ * The closed sprint keeps its full commitment so velocity can be compared later.
+ */
+export function closeSprint(project: Project, sprintId: string, options: CloseSprintOptions = {}): Sprint[] {
+  const { startNextSprint = false, now = Date.now() } = options;
+  const sprints = project.sprints || [];
+  const sprint = sprints.find(s => s.id === sprintId);
+  if (!sprint) return sprints;
+
+  const tasks = getSprintTasks(project, sprint).map(({ task }) => task);
+  const unfinishedIds = tasks.filter(task => !task.isCompleted).map(task => task.id);
+  const closed: Sprint = {
+    ...sprint,
+    taskIds: tasks.map(task => task.id),
+    closedAt: now,
+    completedTaskIds: tasks.filter(task => task.isCompleted).map(task => task.id)
+  };
+  const updated = sprints.map(s => (s.id === sprintId ? closed : s));
+
+  const existingNext = getOpenSprints(project).find(s => s.id !== sprintId && s.startDate > sprint.startDate);
+  if (!existingNext && unfinishedIds.length === 0 && !startNextSprint) return updated;
+
+  const next = existingNext || createSprint({ ...project, sprints: updated }, now);
+  const rolledOver: Sprint = {
+    ...next,
+    taskIds: [...next.taskIds.filter(id => !unfinishedIds.includes(id)), ...unfinishedIds]
+  };
+  return existingNext
+    ? updated.map(s => (s.id === rolledOver.id ? rolledOver : s))
+    : [...updated, rolledOver];
+}
+
+/**
+ * Returns an error message for an invalid sprint, or null when it is valid
+ */
+export function validateSprint(sprint: Pick<Sprint, 'name' | 'startDate' | 'endDate'>): string | null {
+  if (!sprint.name.trim()) return 'Give the sprint a name.';
+  if (!Number.isFinite(sprint.startDate) || !Number.isFinite(sprint.endDate)) return 'Pick a start and end date.';
+  if (sprint.endDate < sprint.startDate) return 'The sprint must end on or after its start date.';
+  return null;
+}
+
+// A closed sprint remembers what was done at review time; later completions don't count for it
+function isDoneInSprint(sprint: Sprint, task: Microtask): boolean {
+  return sprint.closedAt ? Boolean(sprint.completedTaskIds?.includes(task.id)) : task.isCompleted;
+}
+
+function round(hours: number): number {
+  return Math.round(hours * 10) / 10;
+}
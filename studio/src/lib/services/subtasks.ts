@@ -0,0 +1,81 @@
+// src/lib/services/subtasks.ts
+import type { Microtask, Subtask } from '@/lib/types';
+import { applyTaskCompletion } from '@/lib/services/board';
+
+/**
+ * How much of a task is done, from 0 to 1. A completed task is done whatever its subtasks say;
+ * otherwise its subtasks decide, weighted by their estimates when every one has an estimate
+ * and counted equally when any is a plain checklist item.
+ */
+export function getTaskCompletion(task: Microtask): number {
+  if (task.isCompleted) return 1;
+  const subtasks = task.subtasks || [];
+  if (subtasks.length === 0) return 0;
+
+  const useEstimates = subtasks.every(subtask => subtask.estimatedTime !== undefined && subtask.estimatedTime > 0);
+  const weight = (subtask: Subtask) => (useEstimates ? subtask.estimatedTime! : 1);
+  const total = subtasks.reduce((sum, subtask) => sum + weight(subtask), 0);
+  const done = subtasks.filter(subtask => subtask.isCompleted).reduce((sum, subtask) => sum + weight(subtask), 0);
+  return total > 0 ? done / total : 0;
+}
+
+/**
+ * Completed and total subtask counts, for "2/5" style labels
+ */
+export function countSubtasks(subtasks: Subtask[] = []): { completed: number; total: number } {
+  return { completed: subtasks.filter(subtask => subtask.isCompleted).length, total: subtasks.length };
+}
+
+/**
+ * A new, open subtask. Leave the estimate out for a plain checklist item.
+ */
+export function createSubtask(name: string, estimatedTime?: number): Subtask {
+  const subtask: Subtask = { id: crypto.randomUUID(), name: name.trim(), isCompleted: false };
+  if (estimatedTime !== undefined) subtask.estimatedTime = estimatedTime;
+  return subtask;
+}
+
+/**
+ * Checks or unchecks a subtask and keeps the task's completion in line with its subtasks
+ */
+export function setSubtaskCompletion(task: Microtask, subtaskId: string, isCompleted: boolean): Microtask {
+  return syncSubtaskCompletion({
+    ...task,
+    subtasks: (task.subtasks || []).map(subtask => (subtask.id === subtaskId ? { ...subtask, isCompleted } : subtask))
+  });
+}
+
+/**
+ * Completes a task once all its subtasks are done and reopens it when one is not.
+ * Call it after the subtasks change; checking the task itself directly leaves them alone.
+ */
+export function syncSubtaskCompletion(task: Microtask): Microtask {
+  const subtasks = task.subtasks || [];
+  if (subtasks.length === 0) return task;
+  const allDone = subtasks.every(subtask => subtask.isCompleted);
+  return allDone === task.isCompleted ? task : applyTaskCompletion(task, allDone);
+}
+
+/**
+ * Total of the subtask estimates, or null when any subtask has none
+ */
+export function sumSubtaskEstimates(subtasks: Subtask[]): number | null {
+  if (subtasks.length === 0 || subtasks.some(subtask => subtask.estimatedTime === undefined)) return null;
+  return subtasks.reduce((sum, subtask) => sum + subtask.estimatedTime!, 0);
+}
+
+/**
+ * Returns an error message for an invalid subtask list, or null when it is valid
+ */
+export function validateSubtasks(subtasks: Subtask[]): string | null {
+  if (subtasks.some(subtask => !subtask.name.trim())) {
+    return 'Every subtask needs a name.';
+  }
+  const invalidEstimate = subtasks.find(subtask =>
+    subtask.estimatedTime !== undefined && (!Number.isFinite(subtask.estimatedTime) || subtask.estimatedTime < 0)
+  );
+  if (invalidEstimate) {
+    return `The estimate for "${invalidEstimate.name}" must be zero or more hours.`;
+  }
+  return null;
+}
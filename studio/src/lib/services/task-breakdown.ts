@@ -0,0 +1,47 @@
+// src/lib/services/task-breakdown.ts
+import type { Project, Microtask, Subtask } from '@/lib/types';
+import type { BreakDownTaskInput, BreakDownTaskOutput } from '@/ai/flows/break-down-task';
+import { createSubtask } from '@/lib/services/subtasks';
+
+export const MAX_PROPOSED_SUBTASKS = 8;
+
+/**
+ * Context for breaking a task down: the project description and tech stack, plus the other
+ * tasks in its phase so the proposal does not duplicate them
+ */
+export function buildBreakdownInput(project: Project, phaseId: string, task: Microtask): BreakDownTaskInput {
+  const phase = project.phases.find(p => p.id === phaseId);
+  const techStack = project.metadata?.techStack;
+  const technologies = techStack
+    ? [techStack.frontend, techStack.backend, techStack.database, techStack.deployment, techStack.tools].flatMap(list => list || [])
+    : [];
+
+  return {
+    projectName: project.title || 'Untitled project',
+    projectDescription: project.description || '',
+    techStack: technologies.length > 0 ? technologies.join(', ') : 'Not specified',
+    phaseName: phase?.name || '',
+    taskName: task.name,
+    taskDescription: task.description || '',
+    estimatedTime: task.estimatedTime,
+    neighbouringTasks: (phase?.microtasks || [])
+      .filter(other => other.id !== task.id)
+      .map(other => `${other.name} (${other.estimatedTime}h)`)
+  };
+}
+
+/**
+ * Turns the AI proposal into open subtasks: drops unnamed steps, keeps at most
+ * MAX_PROPOSED_SUBTASKS and rounds hours to the quarter hour
+ */
+export function toProposedSubtasks(output: BreakDownTaskOutput): Subtask[] {
+  return output.subtasks
+    .filter(proposal => proposal.name && proposal.name.trim())
+    .slice(0, MAX_PROPOSED_SUBTASKS)
+    .map(proposal => createSubtask(
+      proposal.name,
+      Number.isFinite(proposal.estimatedTime) && proposal.estimatedTime > 0
+        ? Math.max(Math.round(proposal.estimatedTime * 4) / 4, 0.25)
+        : undefined
+    ));
+}
@@ -0,0 +1,106 @@
+// src/lib/services/time-tracking.ts
+import type { Microtask, TimeLogEntry } from '@/lib/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Returns the session whose timer is still running, if any
+ */
+export function getRunningTimeLog(task: Microtask): TimeLogEntry | undefined {
+  return task.timeLogs?.find(entry => entry.end === undefined);
+}
+
+/**
+ * Hours in a single session; a running session counts up to now
+ */
+export function getTimeLogHours(entry: TimeLogEntry, now: number = Date.now()): number {
+  return Math.max(0, (entry.end ?? now) - entry.start) / HOUR_MS;
+}
+
+/**
+ * Total hours logged on a task, including a running session
+ */
+export function getLoggedHours(task: Microtask, now: number = Date.now()): number {
+  return (task.timeLogs || []).reduce((sum, entry) => sum + getTimeLogHours(entry, now), 0);
+}
+
+/**
+ * Replaces a task's sessions and recomputes actualTime from the finished ones.
+ * Without sessions, both fields are dropped so Firebase never sees undefined.
+ */
+export function withTimeLogs(task: Microtask, timeLogs: TimeLogEntry[]): Microtask {
+  const updated: Microtask = { ...task };
+  if (timeLogs.length === 0) {
+    delete updated.timeLogs;
+    delete updated.actualTime;
+    return updated;
+  }
+
+  updated.timeLogs = [...timeLogs].sort((a, b) => a.start - b.start).map(cleanTimeLog);
+  const finishedHours = updated.timeLogs
+    .filter(entry => entry.end !== undefined)
+    .reduce((sum, entry) => sum + getTimeLogHours(entry), 0);
+  updated.actualTime = Math.round(finishedHours * 100) / 100;
+  return updated;
+}
+
+/**
+ * Starts a new session on the task; does nothing if one is already running
+ */
+export function startTimer(task: Microtask, user?: string, now: number = Date.now()): Microtask {
+  if (getRunningTimeLog(task)) return task;
+  const entry: TimeLogEntry = { id: crypto.randomUUID(), start: now };
+  if (user) entry.user = user;
+  return withTimeLogs(task, [...(task.timeLogs || []), entry]);
+}
+
+/**
+ * Stops the running session and folds it into actualTime
+ */
+export function stopTimer(task: Microtask, now: number = Date.now()): Microtask {
+  const running = getRunningTimeLog(task);
+  if (!running) return task;
+  return withTimeLogs(task, (task.timeLogs || []).map(entry =>
+    entry.id === running.id ? { ...entry, end: Math.max(now, entry.start) } : entry
+  ));
+}
+
+/**
+ * Checks a manually edited session before it is saved
+ */
+export function validateTimeLog(entry: TimeLogEntry): string | null {
+  if (!Number.isFinite(entry.start)) return 'Every session needs a start time';
+  if (entry.end !== undefined && !Number.isFinite(entry.end)) return 'End time is not a valid date';
+  if (entry.end !== undefined && entry.end < entry.start) return 'A session cannot end before it starts';
+  return null;
+}
+
+/**
+ * Checks a task's full session list; at most one session may be running
+ */
+export function validateTimeLogs(entries: TimeLogEntry[]): string | null {
+  for (const entry of entries) {
+    const error = validateTimeLog(entry);
+    if (error) return error;
+  }
+  if (entries.filter(entry => entry.end === undefined).length > 1) return 'Only one session can be running at a time';
+  return null;
+}
+
+/**
+ * Formats hours as "1h 05m" / "40m" for timers and logs
+ */
+export function formatDuration(hours: number): string {
+  const totalMinutes = Math.round(hours * 60);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return h > 0 ? `${h}h ${m.toString().padStart(2, '0')}m` : `${m}m`;
+}
+
+function cleanTimeLog(entry: TimeLogEntry): TimeLogEntry {
+  const clean: TimeLogEntry = { id: entry.id, start: entry.start };
+  if (entry.end !== undefined) clean.end = entry.end;
+  if (entry.user) clean.user = entry.user;
+  if (entry.note?.trim()) clean.note = entry.note.trim();
+  return clean;
+}
@@ -0,0 +1,101 @@
+// src/lib/services/timeline.ts
+import type { Project, Phase, Microtask } from '@/lib/types';
+import { calculateCriticalPath } from '@/lib/services/critical-path';
+import {
+  addCalendarDays,
+  addWorkingDays,
+  countWorkingDays,
+  getWorkingCalendar,
+  hoursToWorkingDays,
+  nextWorkingDay,
+  startOfDay
+} from '@/lib/services/working-calendar';
+
+export interface TimelineBar {
+  id: string;
+  name: string;
+  start: number; // timestamp, start of day
+  end: number; // timestamp, exclusive end of day
+  isScheduled: boolean; // true when the dates come from the project instead of being derived
+}
+
+export interface PhaseTimeline extends TimelineBar {
+  phase: Phase;
+  milestone: boolean;
+  tasks: Array<TimelineBar & { task: Microtask }>;
+}
+
+export interface ProjectTimeline {
+  phases: PhaseTimeline[];
+  start: number;
+  end: number;
+}
+
+/**
+ * Lays out phases and microtasks on the project's working calendar.
+ * Explicit dates on phases and tasks win; anything undated is placed after the previous
+ * phase (by estimatedDuration in working days) or, within a phase, at its critical-path earliest start.
+ */
+export function buildProjectTimeline(project: Project): ProjectTimeline {
+  const schedule = calculateCriticalPath(project.phases).schedule;
+  const calendar = getWorkingCalendar(project);
+  let cursor = startOfDay(project.createdAt || Date.now());
+
+  const phases = project.phases.map((phase): PhaseTimeline => {
+    const phaseStart = phase.startDate ? startOfDay(phase.startDate) : nextWorkingDay(calendar, cursor);
+    const phaseEnd = phase.endDate
+      ? Math.max(startOfDay(phase.endDate), addCalendarDays(phaseStart, 1))
+      : addWorkingDays(calendar, phaseStart, Math.max(1, phase.estimatedDuration || 1));
+
+    // Offset tasks by their earliest start relative to the first task of the phase
+    const phaseTaskOffsets = phase.microtasks.map(task => schedule[task.id]?.earliestStart ?? 0);
+    const phaseOffsetBase = phaseTaskOffsets.length > 0 ? Math.min(...phaseTaskOffsets) : 0;
+
+    const tasks = phase.microtasks.map((task, index) => {
+      const offsetDays = Math.floor((phaseTaskOffsets[index] - phaseOffsetBase) / calendar.hoursPerDay);
+      const derivedStart = nextWorkingDay(calendar, addWorkingDays(calendar, phaseStart, offsetDays));
+      const start = task.startDate ? startOfDay(task.startDate) : derivedStart;
+      const end = task.endDate
+        ? Math.max(startOfDay(task.endDate), addCalendarDays(start, 1))
+        : addWorkingDays(calendar, start, hoursToWorkingDays(calendar, task.estimatedTime));
+      return {
+        id: task.id,
+        name: task.name,
+        start,
+        end,
+        isScheduled: Boolean(task.startDate),
+        task
+      };
+    });
+
+    cursor = phaseEnd;
+    return {
+      id: phase.id,
+      name: phase.name,
+      start: phaseStart,
+      end: phaseEnd,
+      isScheduled: Boolean(phase.startDate),
+      phase,
+      milestone: Boolean(phase.milestone),
+      tasks
+    };
+  });
+
+  const allBars = phases.flatMap(phase => [phase, ...phase.tasks]);
+  const start = allBars.length > 0 ? Math.min(...allBars.map(bar => bar.start)) : startOfDay(Date.now());
+  const end = allBars.length > 0 ? Math.max(...allBars.map(bar => bar.end)) : addCalendarDays(start, 7);
+
+  return { phases, start, end };
+}
+
+/**
+ * Applies new calendar dates to a phase and keeps estimatedDuration (working days) in sync
+ */
+export function setPhaseDates(project: Project, phase: Phase, start: number, end: number): Phase {
+  return {
+    ...phase,
+    startDate: start,
+    endDate: end,
+    estimatedDuration: Math.max(1, countWorkingDays(getWorkingCalendar(project), start, end))
+  };
+}
@@ -0,0 +1,190 @@
+// src/lib/services/working-calendar.ts
+import type { Project, WorkingCalendar } from '@/lib/types';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  workingDays: [1, 2, 3, 4, 5],
+  hoursPerDay: 6,
+  holidays: []
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Stop searching for working time after ten years so an unworkable calendar can't hang the UI
+const MAX_SEARCH_DAYS = 3650;
+
+/**
+ * Returns the project's working calendar, falling back to the default week.
+ * A calendar without working days or hours is treated as missing.
+ */
+export function getWorkingCalendar(project: Pick<Project, 'metadata'>): WorkingCalendar {
+  const calendar = project.metadata?.calendar;
+  if (!calendar || !calendar.workingDays?.length || !(calendar.hoursPerDay > 0)) {
+    return DEFAULT_WORKING_CALENDAR;
+  }
+  return {
+    ...calendar,
+    holidays: calendar.holidays || [],
+    availability: calendar.availability || []
+  };
+}
+
+/**
+ * Normalizes a timestamp to local midnight so schedules snap to whole days
+ */
+export function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Moves a timestamp by whole calendar days, staying on local midnight across DST changes
+ */
+export function addCalendarDays(timestamp: number, days: number): number {
+  const date = new Date(startOfDay(timestamp));
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+/**
+ * Formats a timestamp as a local ISO date (YYYY-MM-DD), the format holidays are stored in
+ */
+export function toDateKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parses a local ISO date (YYYY-MM-DD), as produced by date inputs, to local midnight
+ */
+export function fromDateKey(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+}
+
+/**
+ * True when the day is one of the calendar's working weekdays and not a holiday
+ */
+export function isWorkingDay(calendar: WorkingCalendar, timestamp: number): boolean {
+  return calendar.workingDays.includes(new Date(timestamp).getDay())
+    && !calendar.holidays.includes(toDateKey(timestamp));
+}
+
+/**
+ * Returns the first working day on or after the given day
+ */
+export function nextWorkingDay(calendar: WorkingCalendar, timestamp: number): number {
+  let day = startOfDay(timestamp);
+  for (let i = 0; i < MAX_SEARCH_DAYS && !isWorkingDay(calendar, day); i++) {
+    day = addCalendarDays(day, 1);
+  }
+  return day;
+}
+
+/**
+ * Adds whole working days to a day and returns the exclusive end (midnight after the last working day).
+ * Zero days returns the start unchanged.
+ */
+export function addWorkingDays(calendar: WorkingCalendar, start: number, workingDays: number): number {
+  let day = startOfDay(start);
+  let remaining = Math.max(0, Math.ceil(workingDays));
+  for (let i = 0; remaining > 0 && i < MAX_SEARCH_DAYS; i++) {
+    if (isWorkingDay(calendar, day)) remaining--;
+    day = addCalendarDays(day, 1);
+  }
+  return day;
+}
+
+/**
+ * Counts working days in [start, end)
+ */
+export function countWorkingDays(calendar: WorkingCalendar, start: number, end: number): number {
+  let count = 0;
+  for (let day = startOfDay(start), i = 0; day < end && i < MAX_SEARCH_DAYS; day = addCalendarDays(day, 1), i++) {
+    if (isWorkingDay(calendar, day)) count++;
+  }
+  return count;
+}
+
+/**
+ * Converts one person's effort in hours into whole working days (at least one)
+ */
+export function hoursToWorkingDays(calendar: WorkingCalendar, hours: number): number {
+  return Math.max(1, Math.ceil(hours / calendar.hoursPerDay));
+}
+
+/**
+ * Hours one named team member can work on a given day, after their own hours and days off
+ */
+export function getMemberCapacity(project: Pick<Project, 'metadata'>, member: string, timestamp: number): number {
+  const calendar = getWorkingCalendar(project);
+  if (!isWorkingDay(calendar, timestamp)) return 0;
+
+  const availability = calendar.availability?.find(entry => entry.member === member);
+  if (availability?.daysOff?.includes(toDateKey(timestamp))) return 0;
+  return availability?.hoursPerDay ?? calendar.hoursPerDay;
+}
+
+/**
+ * Hours the whole team can work on a given day.
+ * Named team members use their own availability; without a named team, metadata.teamSize
+ * people work the calendar's default hours.
+ */
+export function getTeamCapacity(project: Pick<Project, 'metadata' | 'team'>, timestamp: number): number {
+  const calendar = getWorkingCalendar(project);
+  if (!isWorkingDay(calendar, timestamp)) return 0;
+
+  const members = project.team || [];
+  if (members.length === 0) {
+    return Math.max(1, project.metadata?.teamSize || 1) * calendar.hoursPerDay;
+  }
+  return members.reduce((sum, member) => sum + getMemberCapacity(project, member, timestamp), 0);
+}
+
+/**
+ * Builds a lookup from hours of team effort to the day that effort is finished, starting today.
+ * Cumulative capacity is cached so repeated lookups (e.g. simulations) stay cheap.
+ * Returns the day index (0 = the start day), or -1 when no capacity exists within the search window.
+ */
+export function createCapacityLookup(project: Pick<Project, 'metadata' | 'team'>, from: number): (hours: number) => number {
+  const start = startOfDay(from);
+  const cumulative: number[] = [];
+
+  const extendTo = (hours: number) => {
+    while ((cumulative[cumulative.length - 1] ?? 0) < hours && cumulative.length < MAX_SEARCH_DAYS) {
+      const day = addCalendarDays(start, cumulative.length);
+      cumulative.push((cumulative[cumulative.length - 1] ?? 0) + getTeamCapacity(project, day));
+    }
+  };
+
+  return (hours: number) => {
+    if (hours <= 0) return 0;
+    extendTo(hours);
+    // Binary search for the first day whose cumulative capacity covers the hours
+    let low = 0;
+    let high = cumulative.length - 1;
+    if (cumulative[high] < hours) return -1;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (cumulative[mid] >= hours) high = mid;
+      else low = mid + 1;
+    }
+    return low;
+  };
+}
+
+/**
+ * Checks a calendar before it is saved
+ */
+export function validateWorkingCalendar(calendar: WorkingCalendar): string | null {
+  if (calendar.workingDays.length === 0) return 'Pick at least one working day';
+  if (!(calendar.hoursPerDay > 0) || calendar.hoursPerDay > 24) return 'Hours per day must be between 0 and 24';
+  const badMember = calendar.availability?.find(entry =>
+    entry.hoursPerDay !== undefined && (entry.hoursPerDay < 0 || entry.hoursPerDay > 24));
+  if (badMember) return `Hours per day for ${badMember.member} must be between 0 and 24`;
+  return null;
+}
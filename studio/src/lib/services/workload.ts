@@ -0,0 +1,249 @@
+// src/lib/services/workload.ts
+import type { Project, Microtask, BoardColumn } from '@/lib/types';
+import { buildProjectTimeline } from '@/lib/services/timeline';
+import {
+  addCalendarDays,
+  getMemberCapacity,
+  getTeamCapacity,
+  getWorkingCalendar,
+  isWorkingDay,
+  nextWorkingDay,
+  startOfDay
+} from '@/lib/services/working-calendar';
+import { getLoggedHours } from '@/lib/services/time-tracking';
+import { getBoardColumns, getTaskColumn } from '@/lib/services/board';
+
+export interface WeekLoad {
+  weekStart: number; // Monday, local midnight
+  assignedHours: number;
+  capacityHours: number;
+  isOverAllocated: boolean;
+}
+
+export interface MemberWorkload {
+  member: string;
+  weeks: WeekLoad[];
+  assignedHours: number; // across the whole horizon
+  capacityHours: number;
+  overAllocatedWeeks: number;
+}
+
+export interface WorkloadReport {
+  weekStarts: number[];
+  members: MemberWorkload[];
+  team: WeekLoad[]; // all remaining work vs whole-team capacity (uses metadata.teamSize without a named team)
+  unassignedHours: number[]; // per week
+}
+
+export interface RebalanceSuggestion {
+  taskId: string;
+  taskName: string;
+  phaseId: string;
+  from: string;
+  to: string;
+  hours: number; // remaining hours moved
+}
+
+export interface WorkloadOptions {
+  weeks?: number;
+  now?: number;
+}
+
+const DEFAULT_WEEKS = 8;
+// Load within this many hours of capacity does not count as over-allocated
+const TOLERANCE_HOURS = 0.5;
+
+/**
+ * Hours still to do on a task: its estimate less the time already logged
+ */
+export function getRemainingHours(task: Microtask, now: number = Date.now()): number {
+  if (task.isCompleted) return 0;
+  return Math.max(task.estimatedTime - getLoggedHours(task, now), 0);
+}
+
+/**
+ * Unstarted tasks have no tracked time and still sit in the first open board column,
+ * so they can be handed to someone else without losing context
+ */
+export function isUnstarted(task: Microtask, columns: BoardColumn[]): boolean {
+  const firstOpen = columns.find(column => !column.isDone);
+  return !task.isCompleted
+    && !(task.timeLogs && task.timeLogs.length > 0)
+    && !(task.actualTime && task.actualTime > 0)
+    && getTaskColumn(task, columns).id === firstOpen?.id;
+}
+
+/**
+ * Remaining hours per week for each open task, spread evenly over the working days of its
+ * timeline bar from today on. Overdue work lands on the next working day.
+ */
+export function getWeeklyTaskLoads(project: Project, weekStarts: number[], now: number = Date.now()): Map<string, number[]> {
+  const calendar = getWorkingCalendar(project);
+  const today = startOfDay(now);
+  const loads = new Map<string, number[]>();
+
+  buildProjectTimeline(project).phases.flatMap(phase => phase.tasks).forEach(({ task, start, end }) => {
+    const remaining = getRemainingHours(task, now);
+    if (remaining <= 0) return;
+
+    const days: number[] = [];
+    for (let day = Math.max(start, today); day < end; day = addCalendarDays(day, 1)) {
+      if (isWorkingDay(calendar, day)) days.push(day);
+    }
+    if (days.length === 0) days.push(nextWorkingDay(calendar, today));
+
+    const weekly = weekStarts.map(() => 0);
+    days.forEach(day => {
+      const index = weekIndexOf(weekStarts, day);
+      if (index >= 0) weekly[index] += remaining / days.length;
+    });
+    loads.set(task.id, weekly);
+  });
+
+  return loads;
+}
+
+/**
+ * Each team member's assigned remaining hours per week against their capacity, from this week on.
+ * Tasks with several assignees split their hours evenly.
+ */
+export function buildWorkload(project: Project, options: WorkloadOptions = {}): WorkloadReport {
+  const { weeks = DEFAULT_WEEKS, now = Date.now() } = options;
+  const today = startOfDay(now);
+  const firstWeek = startOfWeek(today);
+  const weekStarts = Array.from({ length: weeks }, (_, index) => addCalendarDays(firstWeek, index * 7));
+  const taskLoads = getWeeklyTaskLoads(project, weekStarts, now);
+  const allTasks = project.phases.flatMap(phase => phase.microtasks);
+
+  // Capacity from today on, so the current week only counts the days left in it
+  const weekCapacity = (capacityOn: (day: number) => number) => weekStarts.map(weekStart => {
+    let hours = 0;
+    for (let offset = 0; offset < 7; offset++) {
+      const day = addCalendarDays(weekStart, offset);
+      if (day >= today) hours += capacityOn(day);
+    }
+    return hours;
+  });
+  const toWeekLoads = (assigned: number[], capacity: number[]): WeekLoad[] => weekStarts.map((weekStart, index) => ({
+    weekStart,
+    assignedHours: round(assigned[index]),
+    capacityHours: round(capacity[index]),
+    isOverAllocated: assigned[index] > capacity[index] + TOLERANCE_HOURS
+  }));
+
+  const assignedByMember = new Map<string, number[]>(project.team.map(member => [member, weekStarts.map(() => 0)]));
+  const unassignedHours = weekStarts.map(() => 0);
+  const totalHours = weekStarts.map(() => 0);
+  allTasks.forEach(task => {
+    const weekly = taskLoads.get(task.id);
+    if (!weekly) return;
+    const assignees = (task.assignees || []).filter(member => assignedByMember.has(member));
+    weekly.forEach((hours, index) => {
+      totalHours[index] += hours;
+      if (assignees.length === 0) unassignedHours[index] += hours;
+      assignees.forEach(member => { assignedByMember.get(member)![index] += hours / assignees.length; });
+    });
+  });
+
+  const members = project.team.map(member => {
+    const weekLoads = toWeekLoads(assignedByMember.get(member)!, weekCapacity(day => getMemberCapacity(project, member, day)));
+    return {
+      member,
+      weeks: weekLoads,
+      assignedHours: round(weekLoads.reduce((sum, week) => sum + week.assignedHours, 0)),
+      capacityHours: round(weekLoads.reduce((sum, week) => sum + week.capacityHours, 0)),
+      overAllocatedWeeks: weekLoads.filter(week => week.isOverAllocated).length
+    };
+  });
+
+  return {
+    weekStarts,
+    members,
+    team: toWeekLoads(totalHours, weekCapacity(day => getTeamCapacity(project, day))),
+    unassignedHours: unassignedHours.map(round)
+  };
+}
+
+/**
+ * Proposes moving unstarted, single-assignee tasks off over-allocated people onto teammates who
+ * have free capacity in every week the task touches. Larger tasks are moved first; each move is
+ * applied to a working copy of the load so later proposals account for earlier ones.
+ */
+export function suggestRebalancing(project: Project, options: WorkloadOptions = {}): RebalanceSuggestion[] {
+  const { now = Date.now() } = options;
+  const report = buildWorkload(project, options);
+  const taskLoads = getWeeklyTaskLoads(project, report.weekStarts, now);
+  const load = new Map(report.members.map(member => [member.member, member.weeks.map(week => week.assignedHours)]));
+  const capacity = new Map(report.members.map(member => [member.member, member.weeks.map(week => week.capacityHours)]));
+  const isOver = (member: string, index: number) => load.get(member)![index] > capacity.get(member)![index] + TOLERANCE_HOURS;
+  const suggestions: RebalanceSuggestion[] = [];
+  const columns = getBoardColumns(project);
+
+  const candidates = project.phases
+    .flatMap(phase => phase.microtasks.map(task => ({ task, phaseId: phase.id })))
+    .filter(({ task }) => isUnstarted(task, columns) && task.assignees?.length === 1 && load.has(task.assignees[0]) && taskLoads.has(task.id))
+    .sort((a, b) => getRemainingHours(b.task, now) - getRemainingHours(a.task, now));
+
+  candidates.forEach(({ task, phaseId }) => {
+    const from = task.assignees![0];
+    const weekly = taskLoads.get(task.id)!;
+    const touchesOverload = weekly.some((hours, index) => hours > 0 && isOver(from, index));
+    if (!touchesOverload) return;
+
+    // Prefer whoever ends up with the most spare capacity across the task's weeks
+    const target = project.team
+      .filter(member => member !== from)
+      .map(member => ({
+        member,
+        spare: Math.min(...weekly.map((hours, index) =>
+          hours > 0 ? capacity.get(member)![index] - load.get(member)![index] - hours : Infinity))
+      }))
+      .filter(({ spare }) => spare >= 0)
+      .sort((a, b) => b.spare - a.spare)[0];
+    if (!target) return;
+
+    weekly.forEach((hours, index) => {
+      load.get(from)![index] -= hours;
+      load.get(target.member)![index] += hours;
+    });
+    suggestions.push({
+      taskId: task.id,
+      taskName: task.name,
+      phaseId,
+      from,
+      to: target.member,
+      hours: round(getRemainingHours(task, now))
+    });
+  });
+
+  return suggestions;
+}
+
+/**
+ * Applies a rebalancing suggestion to the task it names
+ */
+export function applyRebalanceSuggestion(task: Microtask, suggestion: RebalanceSuggestion): Microtask {
+  const assignees = (task.assignees || []).filter(member => member !== suggestion.from);
+  return { ...task, assignees: assignees.includes(suggestion.to) ? assignees : [...assignees, suggestion.to] };
+}
+
+/**
+ * Monday of the week containing the given day
+ */
+function startOfWeek(timestamp: number): number {
+  const day = new Date(timestamp).getDay();
+  return addCalendarDays(timestamp, -((day + 6) % 7));
+}
+
+function weekIndexOf(weekStarts: number[], day: number): number {
+  for (let index = weekStarts.length - 1; index >= 0; index--) {
+    if (day >= weekStarts[index]) {
+      return day < addCalendarDays(weekStarts[index], 7) ? index : -1;
+    }
+  }
+  return -1;
+}
+
+function round(hours: number): number {
+  return Math.round(hours * 10) / 10;
+}
@@ -4,6 +4,12 @@ export type TaskPriority = 'low' | 'medium' | 'high' | 'critical';
 export type TaskComplexity = 'simple' | 'moderate' | 'complex' | 'expert';
 export type DependencyType = 'blocks' | 'prerequisite' | 'parallel';
 
+export interface BoardColumn {
+  id: string;
+  name: string;
+  isDone: boolean; // tasks in a done column count as completed
+}
+
 export interface TaskDependency {
   id: string;
   dependsOn: string; // microtask id
@@ -25,19 +31,49 @@ export interface RiskAssessment {
   mitigation: string[];
 }
 
+export interface TimeLogEntry {
+  id: string;
+  start: number;
+  end?: number; // missing while the timer is running
+  user?: string; // who logged the time
+  note?: string;
+}
+
+export interface ThreePointEstimate {
+  optimistic: number; // hours
+  mostLikely: number;
+  pessimistic: number;
+}
+
+export interface Subtask {
+  id: string;
+  name: string;
+  isCompleted: boolean;
+  estimatedTime?: number; // hours; checklist items have none
+}
+
 export interface Microtask {
   id: string;
   name: string;
   description?: string;
   estimatedTime: number; // in hours
-  actualTime?: number;
+  rawEstimatedTime?: number; // the AI's estimate before calibration to the team's history
+  aiGenerated?: boolean; // still exactly as the AI produced it; cleared when someone edits the task
+  threePointEstimate?: ThreePointEstimate; // when set, estimatedTime is its PERT expected value
+  actualTime?: number; // in hours; the sum of timeLogs when time is tracked
+  timeLogs?: TimeLogEntry[];
   isCompleted: boolean;
+  status?: string; // BoardColumn id; isCompleted stays the source of truth for progress
   priority: TaskPriority;
   complexity: TaskComplexity;
   dependencies: TaskDependency[];
   tags: string[];
+  assignees?: string[]; // entries in Project.team
+  subtasks?: Subtask[]; // child steps; their completion rolls into the task's progress
   notes?: string;
   completedAt?: number;
+  startDate?: number; // scheduled start, set from the timeline view
+  endDate?: number;
 }
 
 export interface Phase {
@@ -53,6 +89,17 @@ export interface Phase {
   milestone?: boolean;
 }
 
+export interface Sprint {
+  id: string;
+  name: string;
+  startDate: number; // first day, local midnight
+  endDate: number; // last day (inclusive), local midnight
+  goal?: string;
+  taskIds: string[]; // committed microtask ids
+  closedAt?: number; // set by the sprint review
+  completedTaskIds?: string[]; // committed tasks that were done when the sprint was closed
+}
+
 export interface OptimizationResults {
   optimizations: string[];
   timelinePrediction: string;
@@ -62,14 +109,35 @@ export interface OptimizationResults {
   projectStateHash: string; // hash of project state when optimization was run
 }
 
+export interface MemberAvailability {
+  member: string; // entry in Project.team
+  hoursPerDay?: number; // overrides the calendar's hoursPerDay for this person
+  daysOff?: string[]; // ISO dates (YYYY-MM-DD)
+}
+
+export interface WorkingCalendar {
+  workingDays: number[]; // 0 = Sunday ... 6 = Saturday
+  hoursPerDay: number; // productive hours per person per working day
+  holidays: string[]; // ISO dates (YYYY-MM-DD)
+  availability?: MemberAvailability[];
+}
+
+export interface MemberRate {
+  member: string; // entry in Project.team
+  hourlyRate: number; // USD
+}
+
 export interface ProjectMetadata {
   projectType: 'web-app' | 'mobile-app' | 'saas' | 'api' | 'desktop' | 'other';
   targetPlatform: string[];
   techStack: TechStack;
   teamSize: number;
-  budget?: number;
+  budget?: number; // USD
+  hourlyRate?: number; // USD per hour of work; defaults to budget / estimated hours
+  memberRates?: MemberRate[]; // override hourlyRate for time logged by these people
   timeline?: number; // in weeks
   complexity: TaskComplexity;
+  calendar?: WorkingCalendar; // defaults to a Monday–Friday, 6-hour week
 }
 
 export interface Project {
@@ -84,6 +152,8 @@ export interface Project {
   progressPercentage: number;
   createdAt: number;
   templateId?: string;
+  boardColumns?: BoardColumn[];
+  sprints?: Sprint[];
   optimizationResults?: OptimizationResults; // Store optimization results persistently
 }
 